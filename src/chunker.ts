@@ -0,0 +1,76 @@
+export interface TextChunk {
+  startLine: number; // 1-based, inclusive
+  endLine: number;   // 1-based, inclusive
+  text: string;
+}
+
+// Chunks grow line by line until they reach this many characters...
+export const CHUNK_CHARS = 2000;
+// ...and start again this far back, so a passage split at a boundary is whole in one chunk
+export const CHUNK_OVERLAP_CHARS = 400;
+
+const EXCERPT_CHARS = 300;
+
+/**
+ * Split text into overlapping chunks of whole lines. A line longer than
+ * `chunkChars` becomes a chunk of its own.
+ */
+export const chunkText = (
+  text: string,
+  chunkChars: number = CHUNK_CHARS,
+  overlapChars: number = CHUNK_OVERLAP_CHARS
+): TextChunk[] => {
+  const lines = text.split("\n");
+  const chunks: TextChunk[] = [];
+
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let length = lines[start].length;
+    while (end + 1 < lines.length && length < chunkChars) {
+      end++;
+      length += lines[end].length + 1;
+    }
+
+    const body = lines.slice(start, end + 1).join("\n");
+    if (body.trim()) {
+      chunks.push({ startLine: start + 1, endLine: end + 1, text: body });
+    }
+    if (end + 1 >= lines.length) break;
+
+    // Step back over trailing lines until they cover the overlap, always moving forward
+    let next = end + 1;
+    let overlap = 0;
+    while (next - 1 > start && overlap + lines[next - 1].length + 1 <= overlapChars) {
+      next--;
+      overlap += lines[next].length + 1;
+    }
+    start = next;
+  }
+
+  return chunks;
+};
+
+/**
+ * A short single-line excerpt of a passage, starting shortly before the
+ * first occurrence of any of the given words.
+ */
+export const excerpt = (text: string, words: string[], maxChars: number = EXCERPT_CHARS): string => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= maxChars) return flat;
+
+  const lower = flat.toLowerCase();
+  const positions = words
+    .map(word => lower.indexOf(word.toLowerCase()))
+    .filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  // Start at a word boundary about a fifth of the window before the match
+  let start = Math.max(0, first - Math.floor(maxChars / 5));
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    start = space >= 0 && space < first ? space + 1 : start;
+  }
+  const end = Math.min(flat.length, start + maxChars);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${end < flat.length ? "…" : ""}`;
+};
@@ -1,6 +1,8 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import { extractDateRange } from "./date-ranges.js";
+import { describeDateRange, parseDatePeriod, parseLocalDay } from "./query-parser.js";
 
 interface ClipboardEntry {
   timestamp: Date;
@@ -19,11 +21,23 @@ interface ClipboardSearchResult {
   totalCount: number;
 }
 
+export interface ClipboardSearchOptions {
+  query?: string;
+  startDate?: Date;
+  endDate?: Date; // Inclusive
+  type?: string;
+  limit?: number;
+  // Set when a date phrase in the query was turned into startDate/endDate
+  dateRange?: { phrase: string; description: string };
+}
+
 export class ClipboardHistoryManager {
   private pasteboardPath: string;
 
-  constructor(sparklePath: string) {
-    this.pasteboardPath = path.join(this.expandPath(sparklePath), "Pasteboard");
+  constructor(sparklePath: string, pasteboardPath?: string) {
+    this.pasteboardPath = pasteboardPath
+      ? this.expandPath(pasteboardPath)
+      : path.join(this.expandPath(sparklePath), "Pasteboard");
   }
 
   private expandPath(folderPath: string): string {
@@ -33,17 +47,35 @@ export class ClipboardHistoryManager {
     return folderPath;
   }
 
+  /**
+   * Move a date phrase in the query ("links from yesterday") into
+   * startDate/endDate. Explicit dates win over the phrase.
+   */
+  public resolveSearchOptions(options: ClipboardSearchOptions): ClipboardSearchOptions {
+    if (!options.query || options.startDate || options.endDate) {
+      return options;
+    }
+
+    const extracted = extractDateRange(options.query);
+    if (!extracted) {
+      return options;
+    }
+
+    const { from, to } = extracted.range;
+    return {
+      ...options,
+      query: extracted.remaining || undefined,
+      startDate: from,
+      endDate: to ? new Date(to.getTime() - 1) : undefined,
+      dateRange: { phrase: extracted.phrase, description: describeDateRange(extracted.range) },
+    };
+  }
+
   /**
    * Search clipboard history with various filters
    */
-  public async searchClipboardHistory(options: {
-    query?: string;
-    startDate?: Date;
-    endDate?: Date;
-    type?: string;
-    limit?: number;
-  }): Promise<ClipboardSearchResult[]> {
-    const { query, startDate, endDate, type, limit = 50 } = options;
+  public async searchClipboardHistory(options: ClipboardSearchOptions): Promise<ClipboardSearchResult[]> {
+    const { query, startDate, endDate, type, limit = 50 } = this.resolveSearchOptions(options);
     const results: ClipboardSearchResult[] = [];
 
     try {
@@ -142,12 +174,13 @@ export class ClipboardHistoryManager {
         .sort()
         .reverse(); // Most recent first
 
-      // Filter by date range if provided
+      // Filter by date range if provided; directory names are local dates
       if (startDate || endDate) {
         dateDirs = dateDirs.filter(dateStr => {
-          const date = new Date(dateStr);
-          if (startDate && date < startDate) return false;
-          if (endDate && date > endDate) return false;
+          const day = parseDatePeriod(dateStr);
+          if (!day) return false;
+          if (startDate && day.to <= startDate) return false;
+          if (endDate && day.from > endDate) return false;
           return true;
         });
       }
@@ -224,9 +257,9 @@ export class ClipboardHistoryManager {
             // Parse JSON format
             const data = JSON.parse(content);
             if (Array.isArray(data)) {
-              entries.push(...data.map(this.normalizeEntry));
+              entries.push(...data.map(entry => this.normalizeEntry(entry)));
             } else if (data.entries) {
-              entries.push(...data.entries.map(this.normalizeEntry));
+              entries.push(...data.entries.map((entry: any) => this.normalizeEntry(entry)));
             }
           } else {
             // Parse text format (assuming one entry per line or separated by delimiter)
@@ -350,10 +383,11 @@ export class ClipboardHistoryManager {
   }
 
   /**
-   * Format date as YYYY-MM-DD
+   * Format date as YYYY-MM-DD in local time, as the date folders are named
    */
   private formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
   }
 
   /**
@@ -361,7 +395,7 @@ export class ClipboardHistoryManager {
    */
   private getDateFromPath(datePath: string): Date {
     const dateStr = path.basename(datePath);
-    return new Date(dateStr);
+    return parseLocalDay(dateStr)?.from ?? new Date(NaN);
   }
 
   /**
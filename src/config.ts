@@ -1,59 +1,229 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import { EmbeddingConfig } from "./embeddings.js";
+import { DEFAULT_RENAME_RULES, RenameConfig } from "./rename-engine.js";
+import { FilingConfig } from "./filing-engine.js";
+import { CONFIG_FILE } from "./internal-paths.js";
+
+export interface RootDefinition {
+  path: string;
+  pasteboardPath?: string; // Defaults to <path>/Pasteboard
+}
 
 export interface SparkleConfig {
   sparkleFolder: string;
+  roots: Record<string, string | RootDefinition>;
+  defaultRoot: string;
   maxFileSize: number;
   allowedExtensions: string[];
   autoIndex: boolean;
   watcherEnabled: boolean;
+  trashRetentionDays: number; // 0 keeps deleted items until empty_trash
+  maxVersionsPerFile: number;
+  maxVersionStoreBytes: number; // Total size cap for .sparkle-versions per root
+  embeddings: EmbeddingConfig;
+  renames: RenameConfig; // Rules for suggest_renames, and whether new files are renamed automatically
+  filing: FilingConfig;   // Rules that sort files from the inbox folder into subfolders
   appVersion?: string;
   serverPort?: number;
 }
 
+export interface ResolvedRoot {
+  name: string;
+  path: string;
+  pasteboardPath: string;
+}
+
+// Values supplied on the command line or through the environment.
+// These win over anything in the config file.
+export interface ConfigOverrides {
+  configPath?: string;
+  sparkleFolder?: string;
+  roots?: Record<string, string>;
+  defaultRoot?: string;
+}
+
+// Name given to `sparkleFolder` in the list of roots
+export const DEFAULT_ROOT_NAME = "default";
+
 export const DEFAULT_CONFIG: SparkleConfig = {
   sparkleFolder: "~/Sparkle",
+  roots: {},
+  defaultRoot: DEFAULT_ROOT_NAME,
   maxFileSize: 100 * 1024 * 1024, // 100MB
   allowedExtensions: ["*"],
   autoIndex: true,
   watcherEnabled: true,
+  trashRetentionDays: 30,
+  maxVersionsPerFile: 20,
+  maxVersionStoreBytes: 200 * 1024 * 1024, // 200MB
+  embeddings: { provider: "local" },
+  renames: { enabled: false, rules: DEFAULT_RENAME_RULES },
+  filing: { enabled: false, inbox: "", quarantine: "Unsorted", rules: [] },
   appVersion: 'production',
   serverPort: 8080,
 };
 
-export const loadConfig = async (): Promise<SparkleConfig> => {
-  const configPath = path.join(os.homedir(), "Sparkle", ".mcp-config.json");
-  
+export const expandPath = (folderPath: string): string => {
+  if (folderPath === "~") {
+    return os.homedir();
+  }
+  if (folderPath.startsWith("~/")) {
+    return path.join(os.homedir(), folderPath.slice(2));
+  }
+  return path.resolve(folderPath);
+};
+
+/**
+ * Parse "name=path" pairs, separated by commas (env) or given one per flag (CLI).
+ */
+const parseRootPairs = (pairs: string[]): Record<string, string> => {
+  const roots: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      console.error(`Ignoring malformed root "${pair}", expected name=path`);
+      continue;
+    }
+    roots[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return roots;
+};
+
+/**
+ * Read overrides from CLI flags and environment variables.
+ *
+ * CLI:  --sparkle-folder <path>  --root <name=path> (repeatable)
+ *       --default-root <name>    --config <path>
+ * Env:  SPARKLE_FOLDER, SPARKLE_ROOTS ("work=~/Work,personal=~/Personal"),
+ *       SPARKLE_DEFAULT_ROOT, SPARKLE_CONFIG
+ * CLI flags take precedence over environment variables.
+ */
+export const getConfigOverrides = (
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ConfigOverrides => {
+  const overrides: ConfigOverrides = {};
+
+  if (env.SPARKLE_CONFIG) overrides.configPath = env.SPARKLE_CONFIG;
+  if (env.SPARKLE_FOLDER) overrides.sparkleFolder = env.SPARKLE_FOLDER;
+  if (env.SPARKLE_DEFAULT_ROOT) overrides.defaultRoot = env.SPARKLE_DEFAULT_ROOT;
+  if (env.SPARKLE_ROOTS) {
+    overrides.roots = parseRootPairs(env.SPARKLE_ROOTS.split(",").filter(p => p.trim()));
+  }
+
+  const cliRoots: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    const takeValue = () => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case "--config":
+        overrides.configPath = takeValue();
+        break;
+      case "--sparkle-folder":
+        overrides.sparkleFolder = takeValue();
+        break;
+      case "--default-root":
+        overrides.defaultRoot = takeValue();
+        break;
+      case "--root":
+        cliRoots.push(takeValue());
+        break;
+    }
+  }
+  if (cliRoots.length > 0) {
+    overrides.roots = { ...overrides.roots, ...parseRootPairs(cliRoots) };
+  }
+
+  return overrides;
+};
+
+export const getConfigPath = (overrides: ConfigOverrides = getConfigOverrides()): string => {
+  if (overrides.configPath) {
+    return expandPath(overrides.configPath);
+  }
+  const folder = overrides.sparkleFolder || DEFAULT_CONFIG.sparkleFolder;
+  return path.join(expandPath(folder), CONFIG_FILE);
+};
+
+export const loadConfig = async (
+  overrides: ConfigOverrides = getConfigOverrides()
+): Promise<SparkleConfig> => {
+  const configPath = getConfigPath(overrides);
+  let settings: Partial<SparkleConfig> = {};
+
   try {
     const configData = await fs.readFile(configPath, "utf-8");
     const config = JSON.parse(configData);
-    return {
-      ...DEFAULT_CONFIG,
-      ...config.settings,
-    };
+    settings = config.settings || {};
   } catch (error) {
     console.error("Using default configuration");
-    return DEFAULT_CONFIG;
   }
+
+  // Precedence: CLI flag > environment variable > config file > defaults
+  return {
+    ...DEFAULT_CONFIG,
+    ...settings,
+    sparkleFolder: overrides.sparkleFolder || settings.sparkleFolder || DEFAULT_CONFIG.sparkleFolder,
+    roots: {
+      ...(settings.roots || {}),
+      ...(overrides.roots || {}),
+    },
+    defaultRoot: overrides.defaultRoot || settings.defaultRoot || DEFAULT_CONFIG.defaultRoot,
+    embeddings: {
+      ...DEFAULT_CONFIG.embeddings,
+      ...(settings.embeddings || {}),
+    },
+    renames: {
+      ...DEFAULT_CONFIG.renames,
+      ...(settings.renames || {}),
+    },
+    filing: {
+      ...DEFAULT_CONFIG.filing,
+      ...(settings.filing || {}),
+    },
+  };
+};
+
+/**
+ * Flatten `sparkleFolder` and `roots` into one list of named roots.
+ * `sparkleFolder` is always available as DEFAULT_ROOT_NAME unless a root
+ * with that name is configured explicitly.
+ */
+export const resolveRoots = (config: SparkleConfig): ResolvedRoot[] => {
+  const definitions: Record<string, string | RootDefinition> = {
+    [DEFAULT_ROOT_NAME]: config.sparkleFolder,
+    ...config.roots,
+  };
+
+  return Object.entries(definitions).map(([name, definition]) => {
+    const rootPath = expandPath(typeof definition === "string" ? definition : definition.path);
+    const pasteboardPath = typeof definition === "string" || !definition.pasteboardPath
+      ? path.join(rootPath, "Pasteboard")
+      : expandPath(definition.pasteboardPath);
+    return { name, path: rootPath, pasteboardPath };
+  });
 };
 
-export const saveConfig = async (config: Partial<SparkleConfig>) => {
-  const configPath = path.join(os.homedir(), "Sparkle", ".mcp-config.json");
-  
+export const saveConfig = async (
+  config: Partial<SparkleConfig>,
+  configPath: string = getConfigPath()
+) => {
   try {
     const existingData = await fs.readFile(configPath, "utf-8");
     const existing = JSON.parse(existingData);
-    
+
     existing.settings = {
       ...existing.settings,
       ...config,
     };
     existing.updated = new Date().toISOString();
-    
+
     await fs.writeFile(configPath, JSON.stringify(existing, null, 2));
   } catch (error) {
     console.error("Error saving configuration:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
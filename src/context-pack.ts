@@ -0,0 +1,208 @@
+import { Passage } from "./search-index.js";
+
+export interface ContextCandidate {
+  path: string;         // As shown to the model, relative to the root
+  passages?: Passage[]; // Best matching line ranges, best first
+}
+
+export interface ContextSection {
+  path: string;
+  kind: "file" | "passage" | "truncated";
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  totalLines: number;
+  text: string;
+}
+
+export interface OmittedFile {
+  path: string;
+  reason: string;
+}
+
+export interface ContextPack {
+  tokenBudget: number;
+  tokensUsed: number;
+  sections: ContextSection[];
+  omitted: OmittedFile[];
+}
+
+// Rough estimate that holds for English prose with common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// Not worth starting a truncated section with less room than this
+const MIN_SECTION_TOKENS = 100;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const sectionHeader = (section: Omit<ContextSection, "text">): string => {
+  const range = section.kind === "file"
+    ? `${section.totalLines} lines`
+    : `lines ${section.startLine}-${section.endLine} of ${section.totalLines}`;
+  const note = section.kind === "truncated" ? ", truncated" : section.kind === "passage" ? ", best match" : "";
+  return `### ${section.path} (${range}${note})\n`;
+};
+
+const renderSection = (section: ContextSection): string => `${sectionHeader(section)}${section.text}\n\n`;
+
+/**
+ * The widest run of whole lines around `anchor` that fits in `tokens`,
+ * growing one line after and one before at a time. If not even the anchor
+ * line fits, it is cut at the last space that does.
+ */
+const fitLines = (lines: string[], anchor: number, tokens: number): { start: number; lines: string[] } => {
+  const maxChars = tokens * CHARS_PER_TOKEN;
+  if (lines[anchor].length + 1 > maxChars) {
+    const cut = lines[anchor].slice(0, maxChars);
+    const space = cut.lastIndexOf(" ");
+    return { start: anchor, lines: [space > maxChars / 2 ? cut.slice(0, space) : cut] };
+  }
+
+  let start = anchor;
+  let end = anchor + 1;
+  let used = lines[anchor].length + 1;
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (end < lines.length && used + lines[end].length + 1 <= maxChars) {
+      used += lines[end++].length + 1;
+      grew = true;
+    }
+    if (start > 0 && used + lines[start - 1].length + 1 <= maxChars) {
+      used += lines[--start].length + 1;
+      grew = true;
+    }
+  }
+  return { start, lines: lines.slice(start, end) };
+};
+
+/**
+ * Index of the first line mentioning one of the terms, or 0.
+ */
+const firstMatchingLine = (lines: string[], terms: string[]): number => {
+  const lowerTerms = terms.map(term => term.toLowerCase());
+  const index = lines.findIndex(line => {
+    const lower = line.toLowerCase();
+    return lowerTerms.some(term => lower.includes(term));
+  });
+  return Math.max(0, index);
+};
+
+/**
+ * Fill a token budget greedily with the content of ranked files.
+ *
+ * Each file goes in whole if it fits. Otherwise its best passages are added
+ * one by one (or, without passages, its opening lines), and the first one
+ * that does not fit is cut to whole lines around the first mention of one
+ * of `focusTerms`. Files that contribute nothing are listed in `omitted`
+ * with the reason. Token counts are estimates.
+ */
+export const buildContextPack = async <T extends ContextCandidate>(
+  candidates: T[],
+  tokenBudget: number,
+  focusTerms: string[],
+  readText: (candidate: T) => Promise<string | undefined>
+): Promise<ContextPack> => {
+  const pack: ContextPack = { tokenBudget, tokensUsed: 0, sections: [], omitted: [] };
+  const remaining = () => tokenBudget - pack.tokensUsed;
+
+  const add = (section: ContextSection) => {
+    pack.sections.push(section);
+    pack.tokensUsed += estimateTokens(renderSection(section));
+  };
+
+  for (const candidate of candidates) {
+    if (remaining() < MIN_SECTION_TOKENS) {
+      pack.omitted.push({ path: candidate.path, reason: "token budget used up" });
+      continue;
+    }
+
+    let text: string | undefined;
+    try {
+      text = await readText(candidate);
+    } catch (error) {
+      pack.omitted.push({
+        path: candidate.path,
+        reason: `could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+    if (!text?.trim()) {
+      pack.omitted.push({ path: candidate.path, reason: "no text content" });
+      continue;
+    }
+
+    const lines = text.split("\n");
+    const whole: ContextSection = {
+      path: candidate.path, kind: "file", startLine: 1, endLine: lines.length, totalLines: lines.length, text,
+    };
+    const wholeTokens = estimateTokens(renderSection(whole));
+    if (wholeTokens <= remaining()) {
+      add(whole);
+      continue;
+    }
+
+    const ranges = candidate.passages?.length
+      ? [...candidate.passages].sort((a, b) => b.score - a.score)
+      : [{ startLine: 1, endLine: lines.length }];
+    let added = false;
+    for (const range of ranges) {
+      const section: ContextSection = {
+        path: candidate.path,
+        kind: "passage",
+        startLine: range.startLine,
+        endLine: range.endLine,
+        totalLines: lines.length,
+        text: lines.slice(range.startLine - 1, range.endLine).join("\n"),
+      };
+      if (estimateTokens(renderSection(section)) <= remaining()) {
+        add(section);
+        added = true;
+        continue;
+      }
+
+      // Cut this passage to what is left, then stop
+      const room = remaining() - estimateTokens(sectionHeader({ ...section, kind: "truncated" })) - 1;
+      if (room >= MIN_SECTION_TOKENS) {
+        const rangeLines = lines.slice(range.startLine - 1, range.endLine);
+        const kept = fitLines(rangeLines, firstMatchingLine(rangeLines, focusTerms), room);
+        const startLine = range.startLine + kept.start;
+        add({
+          ...section,
+          kind: "truncated",
+          startLine,
+          endLine: startLine + kept.lines.length - 1,
+          text: kept.lines.join("\n"),
+        });
+        added = true;
+      }
+      break;
+    }
+
+    if (!added) {
+      pack.omitted.push({ path: candidate.path, reason: `needs ~${wholeTokens} tokens, ${remaining()} left` });
+    }
+  }
+
+  return pack;
+};
+
+/**
+ * The pack as text: a summary line, each section under a heading with its
+ * line range, then the files that were left out.
+ */
+export const renderContextPack = (pack: ContextPack, query: string): string => {
+  const files = new Set(pack.sections.map(section => section.path)).size;
+  let output = `Context for "${query}": ~${pack.tokensUsed} of ${pack.tokenBudget} tokens from ${files} files\n\n`;
+
+  for (const section of pack.sections) {
+    output += renderSection(section);
+  }
+
+  if (pack.omitted.length > 0) {
+    output += "Left out:\n";
+    for (const file of pack.omitted) {
+      output += `- ${file.path}: ${file.reason}\n`;
+    }
+  }
+  return output.trimEnd();
+};
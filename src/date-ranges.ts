@@ -0,0 +1,213 @@
+import { DateRange, parseDatePeriod } from "./query-parser.js";
+
+export interface ExtractedDateRange {
+  range: DateRange;
+  phrase: string;    // The words that were read as a date, e.g. "last week"
+  remaining: string; // The text with that phrase removed
+}
+
+type Unit = "day" | "week" | "month" | "year";
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3,
+};
+
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const WEEKDAY_PATTERN = "(sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?";
+const COUNT_PATTERN = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const UNIT_PATTERN = "(day|week|month|year)s?";
+
+// "since", "after" and "before" turn a period into an open range; the others keep it
+const PREPOSITION = "(from|in|on|during|of|since|before|after)";
+const OPTIONAL_PREPOSITION = `(?:${PREPOSITION}\\s+)?(?:the\\s+)?`;
+const REQUIRED_PREPOSITION = `${PREPOSITION}\\s+(?:the\\s+)?`;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+/**
+ * The calendar period of the given unit that contains `date`.
+ */
+const periodOf = (date: Date, unit: Unit): Required<DateRange> => {
+  switch (unit) {
+    case "day":
+      return { from: startOfDay(date), to: addDays(date, 1) };
+    case "week": {
+      const from = startOfWeek(date);
+      return { from, to: addDays(from, 7) };
+    }
+    case "month":
+      return {
+        from: new Date(date.getFullYear(), date.getMonth(), 1),
+        to: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+      };
+    case "year":
+      return { from: new Date(date.getFullYear(), 0, 1), to: new Date(date.getFullYear() + 1, 0, 1) };
+  }
+};
+
+const shift = (date: Date, unit: Unit, amount: number): Date => {
+  switch (unit) {
+    case "day":
+      return addDays(date, amount);
+    case "week":
+      return addDays(date, amount * 7);
+    case "month":
+      return new Date(date.getFullYear(), date.getMonth() + amount, Math.min(date.getDate(), 28));
+    case "year":
+      return new Date(date.getFullYear() + amount, date.getMonth(), date.getDate());
+  }
+};
+
+const toCount = (value: string): number => NUMBER_WORDS[value] ?? parseInt(value, 10);
+
+const toUnit = (value: string): Unit => value.replace(/s$/, "") as Unit;
+
+const monthIndex = (value: string): number => MONTHS.findIndex(month => month.startsWith(value.slice(0, 3)));
+
+const weekdayIndex = (value: string): number => WEEKDAYS.findIndex(day => day.startsWith(value.slice(0, 3)));
+
+interface DateRule {
+  pattern: string;
+  needsPreposition?: boolean; // Only a date after "in", "from", "since", ...
+  resolve: (match: string[], now: Date) => Required<DateRange> | null;
+}
+
+const latestMonth = (month: string, now: Date, beforeCurrent: boolean): Required<DateRange> | null => {
+  const index = monthIndex(month);
+  if (index < 0) return null;
+  const inFuture = index > now.getMonth() || (beforeCurrent && index === now.getMonth());
+  return periodOf(new Date(now.getFullYear() - (inFuture ? 1 : 0), index, 1), "month");
+};
+
+// Tried in order; the first rule that matches anywhere in the text wins
+const RULES: DateRule[] = [
+  {
+    pattern: "day before yesterday",
+    resolve: (_, now) => periodOf(addDays(now, -2), "day"),
+  },
+  {
+    pattern: "(today|tonight|this morning|this afternoon|this evening)",
+    resolve: (_, now) => periodOf(now, "day"),
+  },
+  {
+    pattern: "yesterday",
+    resolve: (_, now) => periodOf(addDays(now, -1), "day"),
+  },
+  {
+    // Rolling windows: "past 3 days", "last two weeks"
+    pattern: `(?:last|past|previous)\\s+${COUNT_PATTERN}\\s+${UNIT_PATTERN}`,
+    resolve: ([, count, unit], now) => ({
+      from: startOfDay(shift(now, toUnit(unit), -toCount(count))),
+      to: addDays(now, 1),
+    }),
+  },
+  {
+    pattern: `${COUNT_PATTERN}\\s+${UNIT_PATTERN}\\s+ago`,
+    resolve: ([, count, unit], now) => periodOf(shift(now, toUnit(unit), -toCount(count)), toUnit(unit)),
+  },
+  {
+    pattern: "(this|last|past|previous)\\s+(day|week|month|year)",
+    resolve: ([, which, unit], now) => {
+      if (which === "past") {
+        return { from: startOfDay(shift(now, toUnit(unit), -1)), to: addDays(now, 1) };
+      }
+      const offset = which === "this" ? 0 : -1;
+      return periodOf(shift(now, toUnit(unit), offset), toUnit(unit));
+    },
+  },
+  {
+    // "last Friday", "on Monday": the most recent such day before today
+    pattern: `(?:last|on|this past)\\s+${WEEKDAY_PATTERN}`,
+    resolve: ([, day], now) => {
+      const target = weekdayIndex(day);
+      if (target < 0) return null;
+      const daysBack = (now.getDay() - target + 7) % 7 || 7;
+      return periodOf(addDays(now, -daysBack), "day");
+    },
+  },
+  {
+    pattern: "(\\d{4}-\\d{1,2}(?:-\\d{1,2})?)",
+    needsPreposition: true,
+    resolve: ([, value]) => parseDatePeriod(value),
+  },
+  {
+    pattern: `${MONTH_PATTERN}\\s+(\\d{4})`,
+    resolve: ([, month, year]) => {
+      const index = monthIndex(month);
+      return index < 0 ? null : periodOf(new Date(parseInt(year, 10), index, 1), "month");
+    },
+  },
+  {
+    pattern: `last\\s+${MONTH_PATTERN}`,
+    resolve: ([, month], now) => latestMonth(month, now, true),
+  },
+  {
+    // A month without a year is the latest one that is not in the future
+    pattern: MONTH_PATTERN,
+    needsPreposition: true,
+    resolve: ([, month], now) => latestMonth(month, now, false),
+  },
+  {
+    pattern: "(\\d{4})",
+    needsPreposition: true,
+    resolve: ([, year]) => parseDatePeriod(year),
+  },
+];
+
+/**
+ * Find a date expression such as "yesterday", "last week", "past 3 days",
+ * "two months ago", "last Friday", "in March" or "since 2024-03-01" in free
+ * text, resolved against `now` in the local timezone.
+ *
+ * Bare month names, years and ISO dates only count after a preposition
+ * ("photos from March", "taxes in 2023", "notes on 2024-03-15"), so "may",
+ * or a year or date in a file name, stay plain words.
+ */
+export const extractDateRange = (text: string, now: Date = new Date()): ExtractedDateRange | null => {
+  for (const rule of RULES) {
+    const preposition = rule.needsPreposition ? REQUIRED_PREPOSITION : OPTIONAL_PREPOSITION;
+    const regex = new RegExp(`(?:^|\\s)${preposition}${rule.pattern}(?=$|[\\s,.!?])`, "i");
+    const match = text.match(regex);
+    if (!match) continue;
+
+    const [matched, prepositionWord, ...groups] = match;
+
+    const period = rule.resolve([matched, ...groups.map(group => group?.toLowerCase())], now);
+    if (!period) continue;
+
+    let range: DateRange = period;
+    switch (prepositionWord?.toLowerCase()) {
+      case "since":
+        range = { from: period.from };
+        break;
+      case "after":
+        range = { from: period.to };
+        break;
+      case "before":
+        range = { to: period.from };
+        break;
+    }
+
+    const index = match.index ?? 0;
+    return {
+      range,
+      phrase: matched.trim(),
+      remaining: `${text.slice(0, index)} ${text.slice(index + matched.length)}`.replace(/\s+/g, " ").trim(),
+    };
+  }
+  return null;
+};
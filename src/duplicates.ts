@@ -0,0 +1,284 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash } from "crypto";
+import { sha256, sha256File } from "./hash.js";
+import { similarPairs } from "./minhash.js";
+import { parseExifSegment } from "./exif.js";
+
+export interface DuplicateCandidate {
+  path: string;          // Relative to the root
+  fullPath: string;
+  size: number;
+  modified: Date;
+  signature?: number[];  // MinHash of the file's text, from the index
+}
+
+export interface DuplicateGroup {
+  kind: "exact" | "image" | "near";
+  files: string[];       // The copy to keep first
+  wastedBytes: number;   // Size of all copies but the first; 0 for near-duplicates, which differ
+  similarity?: number;   // Near-duplicates: lowest estimated similarity between two linked files
+}
+
+export interface DuplicateReport {
+  scannedFiles: number;
+  wastedBytes: number;   // Over exact and image duplicates
+  groups: DuplicateGroup[];
+}
+
+export interface DuplicateOptions {
+  near: boolean;
+  images: boolean;
+  minSimilarity: number;
+}
+
+// Files of the same size are compared by the hash of their start before reading them whole
+const HEAD_BYTES = 64 * 1024;
+
+// Enough of a JPEG or PNG to find its dimensions behind large metadata blocks
+const IMAGE_HEADER_BYTES = 256 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg"]);
+
+// PNG chunks that do not change how the image looks
+const PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "tIME", "eXIf", "pHYs"]);
+
+// JPEG APPn segments that do change how the image looks: ICC profile (APP2), Adobe color transform (APP14)
+const JPEG_VISUAL_APP_MARKERS = new Set([0xe2, 0xee]);
+
+// Names that mark a copy: "report (1).pdf", "report copy.pdf", "Copy of report.pdf"
+const COPY_NAME_PATTERNS = [/\s\(\d+\)$/, /[\s_-]copy(?:[\s_-]?\d+)?$/i, /^copy of\s/i];
+
+/**
+ * Groups of two or more items with the same key; items without a key are left out.
+ */
+const groupBy = async <T>(
+  items: T[],
+  key: (item: T) => Promise<string | undefined> | string | undefined
+): Promise<T[][]> => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const value = await key(item);
+    if (value === undefined) continue;
+    const group = groups.get(value);
+    if (group) group.push(item);
+    else groups.set(value, [item]);
+  }
+  return [...groups.values()].filter(group => group.length > 1);
+};
+
+const readHead = async (fullPath: string, bytes: number): Promise<Buffer> => {
+  const handle = await fs.open(fullPath, "r");
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Undefined for files deleted or unreadable since they were indexed, which
+ * are then left out of the groups.
+ */
+const tryHash = async (hash: () => Promise<string | undefined>): Promise<string | undefined> => {
+  try {
+    return await hash();
+  } catch (error) {
+    console.error("Error hashing file for duplicate check:", error);
+    return undefined;
+  }
+};
+
+const isCopyName = (filePath: string): boolean => {
+  const name = path.basename(filePath, path.extname(filePath));
+  return COPY_NAME_PATTERNS.some(pattern => pattern.test(name));
+};
+
+/**
+ * The files with the one to keep first: a name that does not look like a
+ * copy, then the oldest, then the shortest path.
+ */
+const keeperFirst = (files: DuplicateCandidate[]): DuplicateCandidate[] => {
+  return [...files].sort((a, b) =>
+    Number(isCopyName(a.path)) - Number(isCopyName(b.path)) ||
+    a.modified.getTime() - b.modified.getTime() ||
+    a.path.length - b.path.length ||
+    a.path.localeCompare(b.path)
+  );
+};
+
+const toGroup = (kind: DuplicateGroup["kind"], files: DuplicateCandidate[]): DuplicateGroup => {
+  const ordered = keeperFirst(files);
+  return {
+    kind,
+    files: ordered.map(file => file.path),
+    wastedBytes: kind === "near" ? 0 : ordered.slice(1).reduce((sum, file) => sum + file.size, 0),
+  };
+};
+
+/**
+ * The parts of a PNG or JPEG that determine how it looks, without metadata
+ * such as EXIF, XMP, text chunks and comments (but with the EXIF orientation,
+ * which rotates the picture), plus its dimensions when found. Undefined for
+ * other formats. Works on a truncated file, for the dimensions.
+ */
+const imageParts = (data: Buffer): { dimensions?: string; parts: Buffer[] } | undefined => {
+  const parts: Buffer[] = [];
+
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    let dimensions: string | undefined;
+    for (let offset = 8; offset + 8 <= data.length;) {
+      const length = data.readUInt32BE(offset);
+      const type = data.toString("latin1", offset + 4, offset + 8);
+      const end = Math.min(data.length, offset + 12 + length);
+      if (type === "IHDR" && offset + 16 <= data.length) {
+        dimensions = `png:${data.readUInt32BE(offset + 8)}x${data.readUInt32BE(offset + 12)}`;
+      }
+      if (!PNG_METADATA_CHUNKS.has(type)) parts.push(data.subarray(offset, end));
+      offset = end;
+    }
+    return { dimensions, parts };
+  }
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+    let dimensions: string | undefined;
+    let orientation: number | undefined;
+    let offset = 2;
+    while (offset + 4 <= data.length) {
+      if (data[offset] !== 0xff) break; // Damaged
+      const marker = data[offset + 1];
+      if (marker === 0xff) {
+        offset++; // Fill byte
+        continue;
+      }
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        offset += 2;
+        continue;
+      }
+      if (marker === 0xda) {
+        parts.push(data.subarray(offset)); // Start of scan: compressed image data to the end
+        break;
+      }
+
+      const end = Math.min(data.length, offset + 2 + data.readUInt16BE(offset + 2));
+      const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isSof && offset + 9 <= data.length) {
+        dimensions = `jpeg:${data.readUInt16BE(offset + 7)}x${data.readUInt16BE(offset + 5)}`;
+      }
+      if (marker === 0xe1) {
+        orientation ??= parseExifSegment(data.subarray(offset + 4, end))?.orientation;
+      }
+      const isMetadata = (marker >= 0xe0 && marker <= 0xef && !JPEG_VISUAL_APP_MARKERS.has(marker)) || marker === 0xfe;
+      if (!isMetadata) parts.push(data.subarray(offset, end));
+      offset = end;
+    }
+    parts.unshift(Buffer.from(`orientation:${orientation ?? 1}`));
+    return { dimensions, parts };
+  }
+
+  return undefined;
+};
+
+const imageDimensions = async (file: DuplicateCandidate): Promise<string | undefined> => {
+  const parts = imageParts(await readHead(file.fullPath, IMAGE_HEADER_BYTES));
+  return parts ? parts.dimensions || "unknown" : undefined;
+};
+
+const imageHash = async (file: DuplicateCandidate): Promise<string | undefined> => {
+  const parts = imageParts(await fs.readFile(file.fullPath));
+  if (!parts) return undefined;
+  const hash = createHash("sha256");
+  for (const part of parts.parts) hash.update(part);
+  return hash.digest("hex");
+};
+
+/**
+ * Group files that are copies of each other:
+ *
+ * - exact: same bytes. Only files of equal size are hashed, first their
+ *   start, then the whole file.
+ * - image: PNGs and JPEGs with the same picture data but different
+ *   metadata. Only images of equal dimensions are read whole.
+ * - near: text documents whose MinHash signatures (from the index) estimate
+ *   at least `minSimilarity` of their word sequences shared.
+ *
+ * Each exact group takes part in the other checks through its first file only.
+ */
+export const findDuplicates = async (
+  files: DuplicateCandidate[],
+  options: DuplicateOptions
+): Promise<DuplicateReport> => {
+  const groups: DuplicateGroup[] = [];
+  const extraCopies = new Set<string>();
+
+  for (const sameSize of await groupBy(files.filter(file => file.size > 0), file => String(file.size))) {
+    const sameHead = sameSize[0].size <= HEAD_BYTES
+      ? [sameSize]
+      : await groupBy(sameSize, file => tryHash(async () => sha256(await readHead(file.fullPath, HEAD_BYTES))));
+    for (const candidates of sameHead) {
+      for (const same of await groupBy(candidates, file => tryHash(() => sha256File(file.fullPath)))) {
+        const group = toGroup("exact", same);
+        groups.push(group);
+        group.files.slice(1).forEach(file => extraCopies.add(file));
+      }
+    }
+  }
+  const unique = files.filter(file => !extraCopies.has(file.path));
+
+  if (options.images) {
+    const images = unique.filter(file => IMAGE_EXTENSIONS.has(path.extname(file.path).toLowerCase()));
+    for (const sameDimensions of await groupBy(images, file => tryHash(() => imageDimensions(file)))) {
+      for (const same of await groupBy(sameDimensions, file => tryHash(() => imageHash(file)))) {
+        groups.push(toGroup("image", same));
+      }
+    }
+  }
+
+  if (options.near) {
+    const byPath = new Map(unique.map(file => [file.path, file]));
+    const signatures = new Map<string, number[]>();
+    for (const file of unique) {
+      if (file.signature) signatures.set(file.path, file.signature);
+    }
+
+    // Union-find over similar pairs, so chains of edits end up in one group
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+      const up = parent.get(key);
+      if (up === undefined || up === key) return key;
+      const rootKey = find(up);
+      parent.set(key, rootKey);
+      return rootKey;
+    };
+    const lowest = new Map<string, number>();
+    const pairs = similarPairs(signatures, options.minSimilarity);
+    for (const { a, b } of pairs) {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    }
+    for (const { a, similarity } of pairs) {
+      const rootKey = find(a);
+      lowest.set(rootKey, Math.min(lowest.get(rootKey) ?? 1, similarity));
+    }
+
+    const members = new Map<string, DuplicateCandidate[]>();
+    for (const key of parent.keys()) {
+      const rootKey = find(key);
+      if (!members.has(rootKey)) members.set(rootKey, [byPath.get(rootKey)!]);
+      if (key !== rootKey) members.get(rootKey)!.push(byPath.get(key)!);
+    }
+    for (const [rootKey, group] of members) {
+      groups.push({ ...toGroup("near", group), similarity: Math.round(lowest.get(rootKey)! * 100) / 100 });
+    }
+  }
+
+  groups.sort((a, b) => b.wastedBytes - a.wastedBytes || b.files.length - a.files.length);
+  return {
+    scannedFiles: files.length,
+    wastedBytes: groups.reduce((sum, group) => sum + group.wastedBytes, 0),
+    groups,
+  };
+};
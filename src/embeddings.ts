@@ -0,0 +1,178 @@
+import { termFrequencies, tokenize } from "./tokenizer.js";
+
+export type EmbeddingProviderName = "local" | "openai" | "ollama" | "none";
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  url?: string;        // Endpoint; defaults depend on the provider
+  model?: string;
+  apiKey?: string;     // Falls back to SPARKLE_EMBEDDING_API_KEY
+  dimensions?: number; // Local provider only
+}
+
+/**
+ * Turns text into vectors. Vectors are L2-normalized, so a dot product
+ * between two of them is their cosine similarity.
+ */
+export interface EmbeddingProvider {
+  // Stored vectors are only reused while this stays the same
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_LOCAL_DIMENSIONS = 256;
+const HTTP_BATCH_SIZE = 32;
+const HTTP_TIMEOUT_MS = 30000;
+
+const DEFAULT_ENDPOINTS: Record<"openai" | "ollama", { url: string; model: string }> = {
+  openai: { url: "https://api.openai.com/v1/embeddings", model: "text-embedding-3-small" },
+  ollama: { url: "http://localhost:11434/api/embed", model: "nomic-embed-text" },
+};
+
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+export const dotProduct = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+// 32-bit FNV-1a
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider using the hashing trick: every term and character
+ * trigram is hashed to a signed bucket (a sparse random projection of the
+ * bag of words), weighted by log term frequency. Captures word overlap and
+ * shared word stems, not meaning; no network or model download needed.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  public readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_LOCAL_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `local-hashed-${dimensions}`;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector: number[] = new Array(this.dimensions).fill(0);
+
+    for (const [term, count] of Object.entries(termFrequencies(tokenize(text)))) {
+      const weight = 1 + Math.log(count);
+      this.addFeature(vector, `w:${term}`, weight);
+
+      // Trigrams let related forms ("invoice", "invoicing") land near each other;
+      // together they weigh as much as the word itself
+      const padded = `#${term}#`;
+      const trigramWeight = weight / Math.sqrt(Math.max(1, padded.length - 2));
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, trigramWeight);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Calls an OpenAI-compatible `/v1/embeddings` endpoint or Ollama's `/api/embed`.
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  public readonly id: string;
+  private format: "openai" | "ollama";
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(format: "openai" | "ollama", options: { url?: string; model?: string; apiKey?: string } = {}) {
+    this.format = format;
+    this.url = options.url || DEFAULT_ENDPOINTS[format].url;
+    this.model = options.model || DEFAULT_ENDPOINTS[format].model;
+    this.apiKey = options.apiKey;
+    this.id = `${format}:${this.model}`;
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+      vectors.push(...await this.request(texts.slice(i, i + HTTP_BATCH_SIZE)));
+    }
+    return vectors;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, input }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`Embedding request to ${this.url} failed: ${response.status} ${body.slice(0, 200)}`);
+    }
+
+    const data: any = await response.json();
+    const vectors: number[][] | undefined = this.format === "openai"
+      ? data.data
+        ?.sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding)
+      : data.embeddings;
+
+    if (!Array.isArray(vectors) || vectors.length !== input.length) {
+      throw new Error(`Embedding response from ${this.url} did not contain ${input.length} vectors`);
+    }
+    return vectors.map(normalizeVector);
+  }
+}
+
+/**
+ * Provider for the configured backend, or null when embeddings are disabled.
+ */
+export const createEmbeddingProvider = (config: EmbeddingConfig): EmbeddingProvider | null => {
+  switch (config.provider) {
+    case "none":
+      return null;
+    case "openai":
+    case "ollama":
+      return new HttpEmbeddingProvider(config.provider, {
+        url: config.url,
+        model: config.model,
+        apiKey: config.apiKey || process.env.SPARKLE_EMBEDDING_API_KEY,
+      });
+    case "local":
+      return new LocalEmbeddingProvider(config.dimensions);
+    default:
+      console.error(`Unknown embedding provider "${config.provider}", using the local provider`);
+      return new LocalEmbeddingProvider(config.dimensions);
+  }
+};
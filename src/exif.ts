@@ -0,0 +1,116 @@
+import * as fs from "fs/promises";
+
+export interface ExifData {
+  orientation?: number; // 1-8; anything but 1 rotates or mirrors the picture
+  taken?: Date;         // DateTimeOriginal, else DateTime, in the camera's local time
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF comes before the image data, so the start of the file is enough
+const EXIF_SEARCH_BYTES = 256 * 1024;
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" as a local time; undefined for blank or invalid dates.
+ */
+const parseExifDate = (text: string): Date | undefined => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(text);
+  if (!match || match[1] === "0000") return undefined;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Orientation and capture date from a TIFF-structured EXIF block, as found
+ * in a JPEG APP1 segment (after "Exif\0\0") or a PNG eXIf chunk.
+ */
+export const parseTiffExif = (tiff: Buffer): ExifData => {
+  const data: ExifData = {};
+  const order = tiff.toString("latin1", 0, 2);
+  if (tiff.length < 8 || (order !== "II" && order !== "MM")) return data;
+
+  const read16 = (offset: number) => order === "II" ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const read32 = (offset: number) => order === "II" ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+  const readAscii = (entry: number): string => {
+    const count = read32(entry + 4);
+    const start = count > 4 ? read32(entry + 8) : entry + 8;
+    return start + count > tiff.length ? "" : tiff.toString("latin1", start, start + count).replace(/\0[\s\S]*$/, "");
+  };
+  const readIfd = (offset: number, visit: (tag: number, entry: number) => void) => {
+    if (offset + 2 > tiff.length) return;
+    const entries = read16(offset);
+    for (let i = 0; i < entries; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      visit(read16(entry), entry);
+    }
+  };
+
+  let exifIfd: number | undefined;
+  let dateTime: Date | undefined;
+  readIfd(read32(4), (tag, entry) => {
+    if (tag === TAG_ORIENTATION) data.orientation = read16(entry + 8);
+    else if (tag === TAG_DATE_TIME) dateTime = parseExifDate(readAscii(entry));
+    else if (tag === TAG_EXIF_IFD) exifIfd = read32(entry + 8);
+  });
+  if (exifIfd !== undefined) {
+    readIfd(exifIfd, (tag, entry) => {
+      if (tag === TAG_DATE_TIME_ORIGINAL) data.taken = parseExifDate(readAscii(entry));
+    });
+  }
+  data.taken ??= dateTime;
+  return data;
+};
+
+/**
+ * EXIF from the payload of a JPEG APP1 segment, or undefined if it holds something else (XMP).
+ */
+export const parseExifSegment = (payload: Buffer): ExifData | undefined => {
+  return payload.toString("latin1", 0, 6) === "Exif\0\0" ? parseTiffExif(payload.subarray(6)) : undefined;
+};
+
+/**
+ * EXIF data of a JPEG or PNG file. Empty for other formats, files without
+ * EXIF, or damaged blocks.
+ */
+export const readExif = async (fullPath: string): Promise<ExifData> => {
+  const handle = await fs.open(fullPath, "r");
+  let data: Buffer;
+  try {
+    const buffer = Buffer.alloc(EXIF_SEARCH_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, EXIF_SEARCH_BYTES, 0);
+    data = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8) {
+      for (let offset = 2; offset + 4 <= data.length && data[offset] === 0xff;) {
+        const marker = data[offset + 1];
+        if (marker === 0xda) break; // Image data starts; no metadata after this
+        const end = offset + 2 + data.readUInt16BE(offset + 2);
+        if (marker === 0xe1) {
+          const exif = parseExifSegment(data.subarray(offset + 4, Math.min(end, data.length)));
+          if (exif) return exif;
+        }
+        offset = end;
+      }
+    } else if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) {
+      for (let offset = 8; offset + 8 <= data.length;) {
+        const length = data.readUInt32BE(offset);
+        if (data.toString("latin1", offset + 4, offset + 8) === "eXIf") {
+          return parseTiffExif(data.subarray(offset + 8, Math.min(offset + 8 + length, data.length)));
+        }
+        offset += 12 + length;
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading EXIF from ${fullPath}:`, error);
+  }
+  return {};
+};
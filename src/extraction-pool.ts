@@ -0,0 +1,131 @@
+import { Worker } from "worker_threads";
+import { existsSync } from "fs";
+import * as os from "os";
+import { fileURLToPath } from "url";
+import { ExtractedText, extractText } from "./text-extractors.js";
+
+interface ExtractionJob {
+  filePath: string;
+  resolve: (result: ExtractedText | null) => void;
+  reject: (error: Error) => void;
+}
+
+type WorkerReply = { result: ExtractedText | null } | { error: string };
+
+// Workers exit after this long without work, releasing the parsers' memory
+const IDLE_TIMEOUT_MS = 30_000;
+
+// A parser that blows up on one file takes down its worker, not the server
+const WORKER_HEAP_MB = 1024;
+
+/**
+ * One worker per spare core, leaving one for the server itself.
+ */
+const defaultPoolSize = (): number => Math.max(1, Math.min(4, os.cpus().length - 1));
+
+/**
+ * Extracts text (PDF, Office, HTML, ...) on worker threads, so indexing a
+ * large folder neither blocks tool calls nor parses one file at a time.
+ * Workers start on demand and exit when idle. If the compiled worker script
+ * is missing, extraction runs in-process instead.
+ */
+export class ExtractionPool {
+  private size: number;
+  private workerPath: string | null;
+  private idle: Worker[] = [];
+  private busy: Map<Worker, ExtractionJob> = new Map();
+  private queue: ExtractionJob[] = [];
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(size: number = defaultPoolSize()) {
+    this.size = size;
+    const workerPath = fileURLToPath(new URL("./extraction-worker.js", import.meta.url));
+    this.workerPath = existsSync(workerPath) ? workerPath : null;
+  }
+
+  /**
+   * How many files can be extracted at once.
+   */
+  public getSize(): number {
+    return this.size;
+  }
+
+  /**
+   * Same result as extractText, computed on a worker.
+   */
+  public extract(filePath: string): Promise<ExtractedText | null> {
+    if (!this.workerPath) {
+      return extractText(filePath);
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ filePath, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  public async close() {
+    clearTimeout(this.idleTimer);
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error("Extraction pool closed"));
+    }
+    const workers = [...this.idle, ...this.busy.keys()];
+    this.idle = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch() {
+    clearTimeout(this.idleTimer);
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() || (this.idle.length + this.busy.size < this.size ? this.spawn() : undefined);
+      if (!worker) break;
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      worker.postMessage({ filePath: job.filePath });
+    }
+
+    if (this.busy.size === 0 && this.idle.length > 0) {
+      this.idleTimer = setTimeout(() => {
+        for (const worker of this.idle.splice(0)) {
+          worker.terminate();
+        }
+      }, IDLE_TIMEOUT_MS);
+      this.idleTimer.unref();
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.workerPath!, {
+      resourceLimits: { maxOldGenerationSizeMb: WORKER_HEAP_MB },
+    });
+    worker.unref();
+
+    worker.on("message", (reply: WorkerReply) => {
+      const job = this.busy.get(worker);
+      if (!job) return;
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      if ("error" in reply) {
+        job.reject(new Error(reply.error));
+      } else {
+        job.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+
+    // Crashed or ran out of memory: fail its file and replace it on the next dispatch
+    worker.on("error", (error) => this.retire(worker, error));
+    worker.on("exit", (code) => this.retire(worker, new Error(`Extraction worker exited with code ${code}`)));
+
+    return worker;
+  }
+
+  private retire(worker: Worker, error: Error) {
+    this.idle = this.idle.filter(other => other !== worker);
+    const job = this.busy.get(worker);
+    if (job) {
+      this.busy.delete(worker);
+      job.reject(error);
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,11 @@
+import { parentPort } from "worker_threads";
+import { extractText } from "./text-extractors.js";
+
+// Entry point of an ExtractionPool worker: one file per message, one reply each
+parentPort?.on("message", async ({ filePath }: { filePath: string }) => {
+  try {
+    parentPort!.postMessage({ result: await extractText(filePath) });
+  } catch (error) {
+    parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,69 @@
+import { createTwoFilesPatch } from "diff";
+
+export interface TextEdit {
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * Raised when an edit cannot be applied unambiguously. Nothing is written.
+ */
+export class EditConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EditConflictError";
+  }
+}
+
+const countOccurrences = (content: string, search: string): number => {
+  let count = 0;
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    count++;
+    index = content.indexOf(search, index + search.length);
+  }
+  return count;
+};
+
+/**
+ * Apply exact-match replacements in order. Each `oldText` must occur exactly
+ * once in the content as it stands after the previous edits.
+ */
+export const applyEdits = (content: string, edits: TextEdit[]): string => {
+  // Files saved on Windows use CRLF; let edits written with \n still match
+  const usesCrlf = content.includes("\r\n");
+  const normalize = (text: string) => usesCrlf ? text.replace(/\r?\n/g, "\r\n") : text;
+
+  let result = content;
+  edits.forEach((edit, index) => {
+    const oldText = normalize(edit.oldText);
+    const newText = normalize(edit.newText);
+    const label = `Edit ${index + 1}`;
+
+    if (oldText.length === 0) {
+      throw new EditConflictError(`${label}: oldText must not be empty`);
+    }
+
+    const occurrences = countOccurrences(result, oldText);
+    if (occurrences === 0) {
+      throw new EditConflictError(`${label}: oldText not found in file`);
+    }
+    if (occurrences > 1) {
+      throw new EditConflictError(
+        `${label}: oldText matches ${occurrences} places; include more surrounding text to make it unique`
+      );
+    }
+
+    const position = result.indexOf(oldText);
+    result = result.slice(0, position) + newText + result.slice(position + oldText.length);
+  });
+
+  return result;
+};
+
+/**
+ * Unified diff between two versions of the same file.
+ */
+export const createUnifiedDiff = (filePath: string, before: string, after: string): string => {
+  return createTwoFilesPatch(`a/${filePath}`, `b/${filePath}`, before, after, undefined, undefined, { context: 3 });
+};
@@ -0,0 +1,49 @@
+import * as fs from "fs/promises";
+import { SparkleSandbox } from "./sandbox.js";
+import { VersionHistory } from "./version-history.js";
+import { isServerPath } from "./internal-paths.js";
+
+const exists = (fullPath: string) => fs.lstat(fullPath).then(() => true, () => false);
+
+/**
+ * `base + ext` (relative to the root), or `base (2) + ext` and so on if that
+ * exists on disk or is already claimed by another planned move.
+ */
+export const uniquePath = async (
+  sandbox: SparkleSandbox,
+  base: string,
+  ext: string,
+  claimed: Set<string>
+): Promise<string> => {
+  for (let n = 1; ; n++) {
+    const candidate = `${base}${n > 1 ? ` (${n})` : ""}${ext}`;
+    if (claimed.has(candidate)) continue;
+    if (!(await exists(await sandbox.resolveForWrite(candidate)))) return candidate;
+  }
+};
+
+/**
+ * Move a file for the rename and filing rules, keeping its version history.
+ * Never overwrites. Returns why the file was skipped, or undefined once it
+ * is moved.
+ */
+export const moveFile = async (
+  sandbox: SparkleSandbox,
+  versions: VersionHistory,
+  from: string,
+  to: string
+): Promise<string | undefined> => {
+  try {
+    const source = await sandbox.resolve(from);
+    const target = await sandbox.resolveForWrite(to);
+    if (isServerPath(sandbox.relative(target))) return `${to} is reserved`;
+    if (!(await fs.stat(source)).isFile()) return `${from} is not a file`;
+    if (await exists(target)) return `${to} already exists`;
+
+    const moved = await sandbox.move(from, to);
+    await versions.move(sandbox.relative(moved.from), sandbox.relative(moved.to));
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
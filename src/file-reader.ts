@@ -0,0 +1,282 @@
+import * as fs from "fs/promises";
+import { createReadStream } from "fs";
+import { StringDecoder } from "string_decoder";
+import { getMimeType, isInlineImageMimeType, isTextMimeType, looksLikeText } from "./mime-types.js";
+import { extractText, getExtractorFormat } from "./text-extractors.js";
+
+// Defaults applied when the caller does not pass `limit`
+export const DEFAULT_LINE_LIMIT = 2000;
+export const DEFAULT_BYTE_LIMIT = 1024 * 1024; // 1MB
+// Images larger than this are only available as byte ranges
+export const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB
+
+interface ReadRangeOptions {
+  offset?: number; // Lines to skip for text, byte position for binaries
+  limit?: number;  // Max lines for text (within DEFAULT_BYTE_LIMIT), max bytes for binaries
+  as?: "auto" | "text"; // "text": extract plain text from documents (PDF, DOCX, HTML, ...)
+}
+
+export interface TextRange {
+  kind: "text";
+  mimeType: string;
+  text: string;
+  totalBytes: number;
+  totalLines: number;
+  offset: number;
+  lineCount: number;
+  hasMore: boolean;
+  nextOffset?: number;
+  extractedFrom?: string; // Extractor used, when the text was pulled out of a document
+  truncated?: string;     // Why fewer lines than `limit` came back, when the text hit DEFAULT_BYTE_LIMIT
+}
+
+export interface BinaryRange {
+  kind: "binary";
+  mimeType: string;
+  data: string; // base64
+  totalBytes: number;
+  offset: number;
+  byteCount: number;
+  hasMore: boolean;
+  nextOffset?: number;
+}
+
+export interface ImageContent {
+  kind: "image";
+  mimeType: string;
+  data: string; // base64
+  totalBytes: number;
+}
+
+export type FileRange = TextRange | BinaryRange | ImageContent;
+
+/**
+ * MIME type from the extension, sniffing the first bytes when it is unknown.
+ */
+export const detectMimeType = async (fullPath: string): Promise<string> => {
+  const mimeType = getMimeType(fullPath);
+  if (mimeType !== "application/octet-stream") {
+    return mimeType;
+  }
+
+  const handle = await fs.open(fullPath, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(8192), 0, 8192, 0);
+    return looksLikeText(buffer.subarray(0, bytesRead)) ? "text/plain" : mimeType;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Read part of an already validated file.
+ *
+ * Text files are paged by line, other files by byte. Whole images that fit
+ * within MAX_INLINE_IMAGE_BYTES come back as image content instead. With
+ * `as: "text"`, documents with a text extractor are paged by line as well.
+ */
+export const readFileRange = async (
+  fullPath: string,
+  options: ReadRangeOptions = {}
+): Promise<FileRange> => {
+  const stats = await fs.stat(fullPath);
+  if (!stats.isFile()) {
+    throw new Error("Not a file");
+  }
+
+  const mimeType = await detectMimeType(fullPath);
+  const isRanged = options.offset !== undefined || options.limit !== undefined;
+
+  if (options.as === "text") {
+    const format = getExtractorFormat(fullPath);
+    if (format && format !== "text") {
+      const extracted = await extractText(fullPath);
+      if (!extracted) {
+        throw new Error(`Cannot extract text from ${mimeType} files`);
+      }
+      return pageLines(extracted.text, mimeType, stats.size, options.offset ?? 0, options.limit ?? DEFAULT_LINE_LIMIT, format);
+    }
+    if (!format && !isTextMimeType(mimeType)) {
+      throw new Error(`Cannot extract text from ${mimeType} files`);
+    }
+  }
+
+  if (isInlineImageMimeType(mimeType) && !isRanged && stats.size <= MAX_INLINE_IMAGE_BYTES) {
+    const buffer = await fs.readFile(fullPath);
+    return { kind: "image", mimeType, data: buffer.toString("base64"), totalBytes: stats.size };
+  }
+
+  if (isTextMimeType(mimeType)) {
+    return readLines(fullPath, mimeType, stats.size, options.offset ?? 0, options.limit ?? DEFAULT_LINE_LIMIT);
+  }
+
+  return readBytes(fullPath, mimeType, stats.size, options.offset ?? 0, options.limit ?? DEFAULT_BYTE_LIMIT);
+};
+
+const LF = 0x0a;
+const CR = 0x0d;
+
+// Text pages stop at DEFAULT_BYTE_LIMIT, however many lines were asked for
+const byteLimitNote = (cut: boolean) => cut
+  ? `This line is longer than ${DEFAULT_BYTE_LIMIT} bytes; only its start is shown`
+  : `Stopped before the line limit to stay within ${DEFAULT_BYTE_LIMIT} bytes`;
+
+// A UTF-8 prefix without a character split in two at the end
+const decodePrefix = (bytes: Buffer): string => new StringDecoder("utf8").write(bytes);
+
+const readLines = async (
+  fullPath: string,
+  mimeType: string,
+  totalBytes: number,
+  offset: number,
+  limit: number
+): Promise<TextRange> => {
+  const lines: string[] = [];
+  let totalLines = 0;
+  let outputBytes = 0;
+  let full = false;        // The next wanted line does not fit within the byte limit
+  let cut = false;         // The only line returned was cut at the byte limit
+  let kept: Buffer[] = []; // As much of the current line as may be returned
+  let keptBytes = 0;
+  let lineBytes = 0;       // Length of the current line so far
+
+  const wanted = () => !full && totalLines >= offset && lines.length < limit;
+  const room = () => DEFAULT_BYTE_LIMIT - outputBytes - (lines.length > 0 ? 1 : 0);
+
+  const addToLine = (bytes: Buffer) => {
+    lineBytes += bytes.length;
+    const take = wanted() ? Math.min(bytes.length, Math.max(0, room() - keptBytes)) : 0;
+    if (take > 0) {
+      kept.push(bytes.subarray(0, take));
+      keptBytes += take;
+    }
+  };
+  const endLine = () => {
+    if (wanted()) {
+      if (lineBytes <= room() || lines.length === 0) {
+        cut = lineBytes > room();
+        outputBytes += (lines.length > 0 ? 1 : 0) + keptBytes;
+        lines.push(decodePrefix(Buffer.concat(kept)));
+      }
+      full = cut || lineBytes > keptBytes;
+    }
+    totalLines++;
+    kept = [];
+    keptBytes = 0;
+    lineBytes = 0;
+  };
+
+  // Stream so large logs never have to fit in memory, not even one huge
+  // line; we still scan to the end to report the total line count. Lines
+  // end at LF, CRLF or a lone CR.
+  let afterCR = false;
+  for await (const chunk of createReadStream(fullPath) as AsyncIterable<Buffer>) {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      if (afterCR) {
+        afterCR = false;
+        if (byte === LF) {
+          start = i + 1;
+          continue;
+        }
+      }
+      if (byte !== LF && byte !== CR) continue;
+      addToLine(chunk.subarray(start, i));
+      endLine();
+      start = i + 1;
+      afterCR = byte === CR;
+    }
+    addToLine(chunk.subarray(start));
+  }
+  if (lineBytes > 0) endLine();
+
+  const end = offset + lines.length;
+  const hasMore = end < totalLines;
+  return {
+    kind: "text",
+    mimeType,
+    text: lines.join("\n"),
+    totalBytes,
+    totalLines,
+    offset,
+    lineCount: lines.length,
+    hasMore,
+    nextOffset: hasMore ? end : undefined,
+    truncated: full ? byteLimitNote(cut) : undefined,
+  };
+};
+
+const pageLines = (
+  text: string,
+  mimeType: string,
+  totalBytes: number,
+  offset: number,
+  limit: number,
+  extractedFrom: string
+): TextRange => {
+  const allLines = text.split("\n");
+  const lines: string[] = [];
+  let outputBytes = 0;
+  let truncated: string | undefined;
+  for (const line of allLines.slice(offset, offset + limit)) {
+    const bytes = Buffer.byteLength(line) + (lines.length > 0 ? 1 : 0);
+    if (outputBytes + bytes > DEFAULT_BYTE_LIMIT) {
+      const cut = lines.length === 0;
+      if (cut) lines.push(decodePrefix(Buffer.from(line).subarray(0, DEFAULT_BYTE_LIMIT)));
+      truncated = byteLimitNote(cut);
+      break;
+    }
+    lines.push(line);
+    outputBytes += bytes;
+  }
+  const end = offset + lines.length;
+  const hasMore = end < allLines.length;
+  return {
+    kind: "text",
+    mimeType,
+    text: lines.join("\n"),
+    totalBytes,
+    totalLines: allLines.length,
+    offset,
+    lineCount: lines.length,
+    hasMore,
+    nextOffset: hasMore ? end : undefined,
+    extractedFrom,
+    truncated,
+  };
+};
+
+const readBytes = async (
+  fullPath: string,
+  mimeType: string,
+  totalBytes: number,
+  offset: number,
+  limit: number
+): Promise<BinaryRange> => {
+  const length = Math.max(0, Math.min(limit, totalBytes - offset));
+  const buffer = Buffer.alloc(length);
+
+  const handle = await fs.open(fullPath, "r");
+  let bytesRead = 0;
+  try {
+    if (length > 0) {
+      ({ bytesRead } = await handle.read(buffer, 0, length, offset));
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const end = offset + bytesRead;
+  const hasMore = end < totalBytes;
+  return {
+    kind: "binary",
+    mimeType,
+    data: buffer.subarray(0, bytesRead).toString("base64"),
+    totalBytes,
+    offset,
+    byteCount: bytesRead,
+    hasMore,
+    nextOffset: hasMore ? end : undefined,
+  };
+};
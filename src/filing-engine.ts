@@ -0,0 +1,261 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "./sandbox.js";
+import { FileMetadata, SparkleFolder } from "./sparkle-folder.js";
+import { VersionHistory } from "./version-history.js";
+import { fileTemplateValues, renderTemplate, templatePlaceholders, TemplateValues } from "./name-template.js";
+import { moveFile, uniquePath } from "./file-moves.js";
+import { INDEX_DIRECTORY, isInternalPath, WELCOME_FILE } from "./internal-paths.js";
+
+export interface FilingRule {
+  name?: string;         // Shown in previews and the log; defaults to the destination
+  extensions?: string[]; // Any of these, e.g. [".pdf", "png"], ignoring case
+  pattern?: string;      // Regular expression tested against the name without extension, ignoring case
+  keywords?: string[];   // Any of these whole words or phrases in the file's text, ignoring case
+  minSize?: number;      // Bytes
+  maxSize?: number;
+  destination: string;   // Folder relative to the root; may use placeholders, e.g. "Receipts/{yyyy}/{mm}"
+}
+
+export interface FilingConfig {
+  enabled: boolean;      // File new arrivals in the inbox automatically; preview_filing works either way
+  inbox: string;         // Folder whose files are filed, relative to the root; "" for the root itself
+  quarantine: string;    // Where files no rule matches go; "" leaves them in the inbox
+  rules: FilingRule[];
+}
+
+export interface FilingMove {
+  from: string;          // Relative to the root
+  to: string;
+  rule: string;          // Name of the matching rule, or "quarantine"
+}
+
+export interface FilingLogEntry extends FilingMove {
+  movedAt: string;       // ISO timestamp
+  automatic: boolean;    // Filed by the watcher on arrival rather than by apply_filing
+}
+
+export interface FilingPreview {
+  moves: FilingMove[];
+  unmatched: string[];   // Files that stay: no rule matched and there is no quarantine, or already in place
+}
+
+export interface FilingResult {
+  moved: FilingLogEntry[];
+  skipped: { from: string; to: string; reason: string }[];
+}
+
+// One JSON line per move, appended; never rewritten
+const LOG_FILE = path.join(INDEX_DIRECTORY, "filing-log.jsonl");
+
+const QUARANTINE_RULE = "quarantine";
+
+// Keywords match whole words: "tax" is not found in "syntax"
+const keywordPattern = (keywords: string[]) => {
+  const alternatives = keywords
+    .map(keyword => keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"))
+    .filter(Boolean);
+  if (alternatives.length === 0) return /(?!)/; // No keywords: matches nothing
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`, "iu");
+};
+
+const normalizeExtension = (ext: string) => (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase();
+
+// "Inbox/" and "./Inbox" as "Inbox", and "" as "." like path.dirname gives for top-level files
+const normalizeFolder = (folder: string) => path.normalize(folder || ".").replace(/(.)[\\/]+$/, "$1");
+
+/**
+ * Sorts the files that land in the inbox folder into subfolders, in the
+ * manner of Hazel. The first rule whose conditions all hold (extension,
+ * name pattern, size, content keywords) gives the destination folder, a
+ * template with the placeholders of the rename rules ({yyyy}, {mm}, {ext},
+ * {title}, ...). Files keep their names, with " (2)" added on a clash.
+ * Files no rule matches go to the quarantine folder.
+ *
+ * Only files directly in the inbox are filed, so filed files are never
+ * picked up again. Every move is appended to `.sparkle-index/filing-log.jsonl`.
+ */
+export class FilingEngine {
+  private sandbox: SparkleSandbox;
+  private folder: SparkleFolder;
+  private versions: VersionHistory;
+  private config: FilingConfig;
+  private inbox: string;
+  private rules: { rule: FilingRule; pattern?: RegExp; keywords?: RegExp }[];
+
+  constructor(sandbox: SparkleSandbox, folder: SparkleFolder, versions: VersionHistory, config: FilingConfig) {
+    this.sandbox = sandbox;
+    this.folder = folder;
+    this.versions = versions;
+    this.config = config;
+    this.inbox = normalizeFolder(config.inbox);
+    this.rules = [];
+    for (const rule of config.rules) {
+      try {
+        this.rules.push({
+          rule,
+          pattern: rule.pattern ? new RegExp(rule.pattern, "i") : undefined,
+          keywords: rule.keywords ? keywordPattern(rule.keywords) : undefined,
+        });
+      } catch (error) {
+        console.error(`Ignoring filing rule with invalid pattern "${rule.pattern}":`, error);
+      }
+    }
+  }
+
+  public isAutomatic(): boolean {
+    return this.config.enabled;
+  }
+
+  public hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Where each file in the inbox would go. Nothing is moved.
+   */
+  public async preview(): Promise<FilingPreview> {
+    const inbox = (await this.folder.listFiles()).filter(file => this.isInInbox(file.path));
+    const preview: FilingPreview = { moves: [], unmatched: [] };
+    const claimed = new Set<string>();
+    for (const file of inbox) {
+      const move = await this.planFor(file, claimed);
+      if (move) preview.moves.push(move);
+      else preview.unmatched.push(this.sandbox.relative(file.path));
+    }
+    return preview;
+  }
+
+  /**
+   * Carry out moves from preview, skipping files that are gone or whose
+   * destination has been taken since, and log each one.
+   */
+  public async apply(moves: FilingMove[], automatic: boolean = false): Promise<FilingResult> {
+    const result: FilingResult = { moved: [], skipped: [] };
+    for (const move of moves) {
+      const reason = await moveFile(this.sandbox, this.versions, move.from, move.to);
+      if (reason) {
+        result.skipped.push({ from: move.from, to: move.to, reason });
+        continue;
+      }
+      const entry: FilingLogEntry = { ...move, movedAt: new Date().toISOString(), automatic };
+      await this.appendLog(entry);
+      result.moved.push(entry);
+    }
+    return result;
+  }
+
+  /**
+   * File a file the watcher just reported, if it is in the inbox. Does
+   * nothing unless automatic filing is enabled.
+   */
+  public async fileNewFile(filePath: string): Promise<void> {
+    if (!this.config.enabled || !this.hasRules() || !this.isInInbox(filePath)) return;
+    const metadata = this.folder.getMetadata(filePath);
+    if (!metadata) return;
+    const move = await this.planFor(metadata, new Set());
+    if (!move) return;
+
+    const { moved, skipped } = await this.apply([move], true);
+    for (const entry of moved) console.error(`Filed ${entry.from} to ${entry.to} (${entry.rule})`);
+    for (const { reason } of skipped) console.error(`Not filing ${move.from}: ${reason}`);
+  }
+
+  /**
+   * The most recent moves, newest first.
+   */
+  public async readLog(limit: number): Promise<FilingLogEntry[]> {
+    let text: string;
+    try {
+      text = await this.sandbox.readTextFile(LOG_FILE);
+    } catch {
+      return [];
+    }
+    const entries: FilingLogEntry[] = [];
+    for (const line of text.split("\n").reverse()) {
+      if (entries.length >= limit) break;
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the log is still good
+      }
+    }
+    return entries;
+  }
+
+  private isInInbox(filePath: string): boolean {
+    const relativePath = this.sandbox.relative(filePath);
+    const name = path.basename(relativePath);
+    return path.dirname(relativePath) === this.inbox &&
+      !name.startsWith(".") &&
+      relativePath !== WELCOME_FILE &&
+      !isInternalPath(relativePath);
+  }
+
+  private async planFor(file: FileMetadata, claimed: Set<string>): Promise<FilingMove | undefined> {
+    const from = this.sandbox.relative(file.path);
+    const ext = path.extname(file.path);
+    const rule = await this.matchingRule(file);
+
+    // A rule whose placeholders cannot be filled for this file counts as no match
+    let destination: string | undefined;
+    let ruleName = QUARANTINE_RULE;
+    if (rule) {
+      const values = await fileTemplateValues(this.folder, file.path, file.type, templatePlaceholders(rule.destination));
+      destination = this.renderDestination(rule.destination, values);
+      if (destination !== undefined) ruleName = rule.name || rule.destination;
+    }
+    destination ??= this.config.quarantine || undefined;
+    if (destination === undefined) return undefined;
+    if (normalizeFolder(destination) === path.dirname(from)) return undefined;
+
+    const to = await uniquePath(this.sandbox, path.join(destination, path.basename(from, ext)), ext, claimed);
+    claimed.add(to);
+    return { from, to, rule: ruleName };
+  }
+
+  private async matchingRule(file: FileMetadata): Promise<FilingRule | undefined> {
+    const ext = path.extname(file.path).toLowerCase();
+    const name = path.basename(file.path, path.extname(file.path));
+    let text: string | undefined | null = null; // null: not read yet
+
+    for (const { rule, pattern, keywords } of this.rules) {
+      if (rule.extensions && !rule.extensions.some(candidate => normalizeExtension(candidate) === ext)) continue;
+      if (pattern && !pattern.test(name)) continue;
+      if (rule.minSize !== undefined && file.size < rule.minSize) continue;
+      if (rule.maxSize !== undefined && file.size > rule.maxSize) continue;
+      if (keywords) {
+        if (text === null) {
+          text = await this.folder.readIndexedText(file.path).catch(() => undefined);
+        }
+        if (!text || !keywords.test(text)) continue;
+      }
+      return rule;
+    }
+    return undefined;
+  }
+
+  /**
+   * A destination template with its placeholders filled in, one path
+   * segment each; undefined if one has no value or the folder is reserved.
+   */
+  private renderDestination(template: string, values: TemplateValues): string | undefined {
+    const segments = template.split(/[\\/]+/).filter(segment => segment && segment !== ".");
+    const rendered: string[] = [];
+    for (const segment of segments) {
+      if (segment === "..") return undefined;
+      const value = renderTemplate(segment, values);
+      if (value === undefined) return undefined;
+      rendered.push(value);
+    }
+    const destination = rendered.join(path.sep);
+    return isInternalPath(destination) ? undefined : destination;
+  }
+
+  private async appendLog(entry: FilingLogEntry) {
+    const logPath = await this.sandbox.resolveForWrite(LOG_FILE);
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, JSON.stringify(entry) + "\n");
+  }
+}
@@ -0,0 +1,217 @@
+export interface FuzzyMatch {
+  score: number;       // 0..1; 1 when every query word is a whole word of the name
+  positions: number[]; // Indexes of the matched characters in the name, ascending
+}
+
+interface Word {
+  text: string;  // Folded (lowercase, no diacritics)
+  start: number; // Index in the folded name
+}
+
+// Score of one query word, by how it matched a name word
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.9;
+const INITIALS_SCORE = 0.75;
+const SUBSTRING_SCORE = 0.7;
+const TYPO_SCORE = 0.65;      // Minus TYPO_PENALTY per edit
+const TYPO_PENALTY = 0.15;
+const PARTIAL_TYPO_PENALTY = 0.05; // Typo against the start of a longer word
+
+/**
+ * Edits allowed for a query word of this length: none for very short words,
+ * where one edit would match almost anything.
+ */
+const maxEdits = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 5) return 1;
+  if (length <= 9) return 2;
+  return 3;
+};
+
+/**
+ * Lowercase with diacritics removed ("Café" -> "cafe"), keeping for each
+ * character of the result the index of the original character it came from.
+ */
+export const foldDiacritics = (text: string): { folded: string; origins: number[] } => {
+  let folded = "";
+  const origins: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const plain = text[i].normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+    for (const char of plain) {
+      folded += char;
+      origins.push(i);
+    }
+  }
+  return { folded, origins };
+};
+
+/**
+ * Words of a name: runs of letters or digits, split further at camelCase
+ * humps and letter/digit changes ("taxReturn2024_final" -> tax, return, 2024, final).
+ */
+const splitWords = (original: string, folded: string, origins: number[]): Word[] => {
+  const words: Word[] = [];
+  let start = -1;
+  for (let i = 0; i <= folded.length; i++) {
+    const char = folded[i];
+    const isWordChar = char !== undefined && /[\p{L}\p{N}]/u.test(char);
+    const boundary = isWordChar && start >= 0 && (
+      (/\p{Ll}/u.test(original[origins[i - 1]]) && /\p{Lu}/u.test(original[origins[i]])) ||
+      (/\p{N}/u.test(char) !== /\p{N}/u.test(folded[i - 1]))
+    );
+    if ((!isWordChar || boundary) && start >= 0) {
+      words.push({ text: folded.slice(start, i), start });
+      start = -1;
+    }
+    if (isWordChar && start < 0) {
+      start = i;
+    }
+  }
+  return words;
+};
+
+const range = (start: number, length: number): number[] => Array.from({ length }, (_, i) => start + i);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions, so "reciept" is one edit from "receipt"), with the
+ * positions in `target` of the characters that were kept.
+ */
+const editDistance = (query: string, target: string): { distance: number; kept: number[] } => {
+  const rows = query.length + 1;
+  const cols = target.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  // Walk back through the table to find which target characters matched
+  const kept: number[] = [];
+  let i = query.length;
+  let j = target.length;
+  while (i > 0 && j > 0) {
+    if (query[i - 1] === target[j - 1] && d[i][j] === d[i - 1][j - 1]) {
+      kept.push(j - 1);
+      i--;
+      j--;
+    } else if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1] &&
+      d[i][j] === d[i - 2][j - 2] + 1) {
+      kept.push(j - 1, j - 2);
+      i -= 2;
+      j -= 2;
+    } else if (d[i][j] === d[i - 1][j - 1] + 1) {
+      i--;
+      j--;
+    } else if (d[i][j] === d[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return { distance: d[query.length][target.length], kept: kept.sort((a, b) => a - b) };
+};
+
+/**
+ * Best match of one folded query word against the words of a name.
+ */
+const matchWord = (query: string, folded: string, words: Word[]): FuzzyMatch | null => {
+  // Cast so the closure's assignments are not narrowed away
+  let best = null as FuzzyMatch | null;
+  const consider = (score: number, positions: number[]) => {
+    if (!best || score > best.score) best = { score, positions };
+  };
+
+  for (const word of words) {
+    if (word.text === query) {
+      return { score: EXACT_SCORE, positions: range(word.start, query.length) };
+    }
+    if (word.text.startsWith(query)) {
+      consider(PREFIX_SCORE, range(word.start, query.length));
+    }
+  }
+
+  // "tr" -> "tax_return": initials of consecutive words
+  if (query.length >= 2) {
+    for (let i = 0; i + query.length <= words.length; i++) {
+      const run = words.slice(i, i + query.length);
+      if (run.every((word, k) => word.text[0] === query[k])) {
+        consider(INITIALS_SCORE, run.map(word => word.start));
+        break;
+      }
+    }
+  }
+
+  const index = folded.indexOf(query);
+  if (index >= 0) {
+    consider(SUBSTRING_SCORE, range(index, query.length));
+  }
+
+  const allowed = maxEdits(query.length);
+  if (allowed > 0 && (!best || best.score < TYPO_SCORE)) {
+    for (const word of words) {
+      // Compare with the whole word, and with its start for partly typed words
+      const targets = new Set([word.text, ...[-1, 0, 1].map(delta => word.text.slice(0, query.length + delta))]);
+      for (const target of targets) {
+        if (Math.abs(target.length - query.length) > allowed) continue;
+        const { distance, kept } = editDistance(query, target);
+        if (distance === 0 || distance > allowed) continue;
+        const penalty = target === word.text ? 0 : PARTIAL_TYPO_PENALTY;
+        consider(TYPO_SCORE - TYPO_PENALTY * distance - penalty, kept.map(position => word.start + position));
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Match a query against a file name, tolerating typos ("reciept" finds
+ * "receipt.pdf"), case and diacritics ("cafe" finds "Café.md"), and using
+ * word boundaries, including camelCase and snake_case ones. Every word of
+ * the query must match; the score is their average. Null when one does not.
+ */
+export const fuzzyMatch = (query: string, name: string): FuzzyMatch | null => {
+  const { folded, origins } = foldDiacritics(name);
+  const words = splitWords(name, folded, origins);
+  const queryWords = foldDiacritics(query).folded.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (queryWords.length === 0) return null;
+
+  let total = 0;
+  const positions = new Set<number>();
+  for (const queryWord of queryWords) {
+    const match = matchWord(queryWord, folded, words);
+    if (!match) return null;
+    total += match.score;
+    for (const position of match.positions) {
+      positions.add(origins[position]);
+    }
+  }
+
+  return { score: total / queryWords.length, positions: [...positions].sort((a, b) => a - b) };
+};
+
+/**
+ * The name with each run of matched characters in brackets: "[Rece]i[pt].pdf".
+ */
+export const highlightMatch = (name: string, positions: number[]): string => {
+  const matched = new Set(positions);
+  let output = "";
+  for (let i = 0; i < name.length; i++) {
+    if (matched.has(i) && !matched.has(i - 1)) output += "[";
+    output += name[i];
+    if (matched.has(i) && !matched.has(i + 1)) output += "]";
+  }
+  return output;
+};
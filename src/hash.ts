@@ -0,0 +1,19 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+
+/**
+ * SHA-256 of a file's contents as lowercase hex, streamed so large files are fine.
+ */
+export const sha256File = (fullPath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(fullPath)
+      .on("data", chunk => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+};
+
+export const sha256 = (content: string | Buffer): string => {
+  return createHash("sha256").update(content).digest("hex");
+};
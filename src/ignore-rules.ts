@@ -0,0 +1,126 @@
+import { readFileSync, realpathSync } from "fs";
+import * as path from "path";
+import ignore, { Ignore } from "ignore";
+
+export const IGNORE_FILE = ".sparkleignore";
+
+/**
+ * The `.sparkleignore` files of one Sparkle root, in gitignore syntax.
+ *
+ * A file in the root applies to the whole tree; one in a subfolder applies
+ * below it, and its rules (including `!negations`) win over those of the
+ * folders above. As in git, nothing inside an ignored folder can be
+ * re-included. Ignore files are read on first use and cached until reload().
+ */
+export class IgnoreRules {
+  private rootPath: string;
+  private realRootPath?: string; // The root with symlinks resolved, as sandbox.resolve gives paths
+  // Folder (relative, "/"-separated, "" for the root) -> its rules, or null if it has no ignore file
+  private rules: Map<string, Ignore | null> = new Map();
+  private ignoredFolders: Map<string, boolean> = new Map();
+
+  constructor(rootPath: string) {
+    this.rootPath = rootPath;
+  }
+
+  public getRootPath(): string {
+    return this.rootPath;
+  }
+
+  /**
+   * Whether an absolute path is ignored. Paths outside the root never are.
+   * Folder-only patterns (`cache/`) need `isDirectory` to match. Paths may
+   * go through the root as given or through its real path.
+   */
+  public isIgnored(fullPath: string, isDirectory: boolean = false): boolean {
+    const relativePath = this.toRelative(fullPath);
+    if (relativePath === undefined) {
+      return false;
+    }
+
+    const segments = relativePath.split(path.sep);
+    if (segments.length > 1 && this.isIgnoredFolder(segments.slice(0, -1))) {
+      return true;
+    }
+    return isDirectory ? this.isIgnoredFolder(segments) : this.matches(segments, false);
+  }
+
+  // Relative to the root, or undefined for the root itself and paths outside it
+  private toRelative(fullPath: string): string | undefined {
+    for (const root of [this.rootPath, this.getRealRootPath()]) {
+      const relativePath = path.relative(root, fullPath);
+      if (relativePath && relativePath !== ".." && !relativePath.startsWith(".." + path.sep) && !path.isAbsolute(relativePath)) {
+        return relativePath;
+      }
+    }
+    return undefined;
+  }
+
+  private getRealRootPath(): string {
+    if (!this.realRootPath) {
+      try {
+        this.realRootPath = realpathSync(this.rootPath);
+      } catch {
+        return this.rootPath; // Not created yet
+      }
+    }
+    return this.realRootPath;
+  }
+
+  /**
+   * Forget cached rules, after an ignore file was added, changed or removed.
+   */
+  public reload() {
+    this.rules.clear();
+    this.ignoredFolders.clear();
+  }
+
+  private isIgnoredFolder(segments: string[]): boolean {
+    const key = segments.join("/");
+    let ignored = this.ignoredFolders.get(key);
+    if (ignored === undefined) {
+      ignored = (segments.length > 1 && this.isIgnoredFolder(segments.slice(0, -1))) || this.matches(segments, true);
+      this.ignoredFolders.set(key, ignored);
+    }
+    return ignored;
+  }
+
+  /**
+   * Apply the ignore files from the root down to the path's parent folder;
+   * the deepest file with a matching rule decides.
+   */
+  private matches(segments: string[], isDirectory: boolean): boolean {
+    let ignored = false;
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = this.rulesFor(segments.slice(0, depth).join("/"));
+      if (!rules) continue;
+
+      const result = rules.test(segments.slice(depth).join("/") + (isDirectory ? "/" : ""));
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+    return ignored;
+  }
+
+  private rulesFor(folder: string): Ignore | null {
+    if (this.rules.has(folder)) {
+      return this.rules.get(folder)!;
+    }
+
+    let rules: Ignore | null = null;
+    try {
+      // Synchronous because chokidar asks whether a path is ignored synchronously
+      const content = readFileSync(path.join(this.rootPath, ...folder.split("/"), IGNORE_FILE), "utf-8");
+      rules = ignore().add(content);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT" && error?.code !== "ENOTDIR") {
+        console.error(`Error reading ${IGNORE_FILE} in "${folder || "."}":`, error);
+      }
+    }
+    this.rules.set(folder, rules);
+    return rules;
+  }
+}
@@ -4,87 +4,285 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { SparkleFolder } from "./sparkle-folder.js";
 import { FileSearchEngine } from "./search-engine.js";
-import { PathValidator, RateLimiter } from "./security.js";
-import { loadConfig, SparkleConfig } from "./config.js";
-import { ClipboardHistoryManager } from "./clipboard-history.js";
+import { RateLimiter } from "./security.js";
+import { DEFAULT_CONFIG, loadConfig, SparkleConfig } from "./config.js";
+import { RootRegistry, SparkleRoot } from "./roots.js";
+import { IndexRun, SparkleFolder } from "./sparkle-folder.js";
+import { SparkleSandbox } from "./sandbox.js";
+import { SparkleResources } from "./resources.js";
+import { SparklePrompts } from "./prompts.js";
+import { toResourceUri } from "./resources.js";
+import { readFileRange } from "./file-reader.js";
+import { applyEdits, createUnifiedDiff } from "./file-editor.js";
+import { isInternalPath, WELCOME_FILE } from "./internal-paths.js";
+import { sha256, sha256File } from "./hash.js";
+import { CURRENT_VERSION } from "./version-history.js";
+import {
+  describeQuery,
+  hasQueryFilters,
+  matchesQueryFilters,
+  ParsedQuery,
+  parseLocalDay,
+  parseSearchQuery,
+} from "./query-parser.js";
+import { ClipboardSearchOptions } from "./clipboard-history.js";
+import { excerpt } from "./chunker.js";
+import { buildContextPack, renderContextPack } from "./context-pack.js";
+import { fuzzyMatch, highlightMatch } from "./fuzzy-match.js";
+import { IgnoreRules } from "./ignore-rules.js";
+import { tokenize } from "./tokenizer.js";
+import { DuplicateCandidate, findDuplicates } from "./duplicates.js";
 import * as fs from "fs/promises";
 import * as path from "path";
-import * as os from "os";
+
+// Shared by every tool that works inside a Sparkle root
+const RootArgument = z.string().optional().describe("Named Sparkle root to use (e.g. \"work\"); defaults to the primary root");
 
 // Tool schemas
 const GetRelevantFilesSchema = z.object({
-  query: z.string().describe("Natural language query about files needed"),
+  query: z.string().describe(
+    "Natural language query about files needed. Supports type:pdf, ext:md, in:Projects/2024, size:>5MB, " +
+    "modified:>2024-03-01, name:\"tax return\", \"exact phrases\" and -exclusions"
+  ),
   maxFiles: z.number().optional().default(10).describe("Maximum files to return"),
+  root: RootArgument,
+});
+
+const BuildContextSchema = z.object({
+  query: z.string().describe("What the context is for; same syntax as get_relevant_files"),
+  tokenBudget: z.number().int().min(200).max(200000).optional().default(8000).describe("Approximate number of tokens of file content to return"),
+  maxFiles: z.number().int().positive().optional().default(10).describe("Maximum files to consider"),
+  root: RootArgument,
+});
+
+const FindSimilarFilesSchema = z.object({
+  path: z.string().describe("File to find similar files for (relative to Sparkle folder)"),
+  maxFiles: z.number().int().positive().optional().default(10).describe("Maximum files to return"),
+  root: RootArgument,
 });
 
 const SearchFilesSchema = z.object({
   path: z.string().describe("Directory path to search (relative to Sparkle folder)"),
-  pattern: z.string().describe("Search pattern to match against file/directory names"),
+  pattern: z.string().describe(
+    "Search pattern to match against file/directory names (e.g. \"*.txt\" or \"reciept\", typos allowed), " +
+    "optionally with filters: type:, ext:, in:, size:, modified:, name:, -exclusions"
+  ),
   excludePatterns: z.array(z.string()).optional().describe("Glob patterns to exclude from search"),
+  root: RootArgument,
+});
+
+const GrepFilesSchema = z.object({
+  pattern: z.string().describe("Regular expression (or literal text when regex is false) to search file contents for"),
+  path: z.string().optional().default("").describe("Directory or file to search (relative to Sparkle folder); defaults to the whole folder"),
+  regex: z.boolean().optional().default(true).describe("Set to false to match the pattern literally"),
+  caseSensitive: z.boolean().optional().default(false),
+  include: z.array(z.string()).optional().describe("Only search files matching these globs (e.g. \"*.md\")"),
+  exclude: z.array(z.string()).optional().describe("Skip files and folders matching these globs"),
+  contextLines: z.number().int().min(0).max(10).optional().default(0).describe("Lines of context before and after each match"),
+  maxMatchesPerFile: z.number().int().positive().optional().default(20),
+  maxFiles: z.number().int().positive().optional().default(50),
+  root: RootArgument,
 });
 
 const ReadFileSchema = z.object({
   path: z.string().describe("Path to file to read (relative to Sparkle folder)"),
+  offset: z.number().int().min(0).optional().describe("Text files: number of lines to skip. Other files: byte position to start reading at"),
+  limit: z.number().int().positive().optional().describe("Text files: maximum lines to return (default 2000), within 1MB of text. Other files: maximum bytes to return (default 1MB)"),
+  as: z.enum(["auto", "text"]).optional().default("auto").describe("\"text\" returns the plain text of PDF, DOCX, XLSX, PPTX, HTML and RTF files, paged by line"),
+  root: RootArgument,
 });
 
 const WriteFileSchema = z.object({
   path: z.string().describe("Path to file to write (relative to Sparkle folder)"),
   content: z.string().describe("Content to write to the file"),
+  overwrite: z.boolean().optional().default(true).describe("Set to false to only create new files and fail if the file exists"),
+  expectedMtime: z.string().optional().describe("Only write if the file's modified time still equals this ISO timestamp (from get_file_info)"),
+  expectedSha256: z.string().optional().describe("Only write if the file's SHA-256 still equals this hex digest (from get_file_info)"),
+  root: RootArgument,
+});
+
+const EditFileSchema = z.object({
+  path: z.string().describe("Path to file to edit (relative to Sparkle folder)"),
+  edits: z.array(z.object({
+    oldText: z.string().describe("Exact text to replace; must occur exactly once"),
+    newText: z.string().describe("Replacement text"),
+  })).min(1).describe("Replacements, applied in order"),
+  dryRun: z.boolean().optional().default(false).describe("Return the diff without writing the file"),
+  root: RootArgument,
 });
 
 const ListDirectorySchema = z.object({
   path: z.string().describe("Directory path to list (relative to Sparkle folder)"),
+  showIgnored: z.boolean().optional().default(false).describe("Also list entries matched by .sparkleignore files"),
+  root: RootArgument,
 });
 
 const CreateDirectorySchema = z.object({
   path: z.string().describe("Directory path to create (relative to Sparkle folder)"),
+  root: RootArgument,
 });
 
 const MoveFileSchema = z.object({
   source: z.string().describe("Source path (relative to Sparkle folder)"),
   destination: z.string().describe("Destination path (relative to Sparkle folder)"),
+  root: RootArgument,
+});
+
+const DeleteFileSchema = z.object({
+  path: z.string().describe("File or directory to move to the Sparkle trash (relative to Sparkle folder)"),
+  root: RootArgument,
+});
+
+const FindDuplicatesSchema = z.object({
+  path: z.string().optional().default("").describe("Folder to check (relative to Sparkle folder); empty for the whole folder"),
+  near: z.boolean().optional().default(true).describe("Also group text documents that are nearly the same"),
+  minSimilarity: z.number().min(0.5).max(1).optional().default(0.8).describe("Estimated share of word sequences two near-duplicates must have in common"),
+  images: z.boolean().optional().default(true).describe("Also group PNG and JPEG images with the same picture but different metadata"),
+  plan: z.boolean().optional().default(false).describe("Include a consolidation plan: the copy to keep in each group and what happens to the rest"),
+  apply: z.boolean().optional().default(false).describe("Carry out the plan for exact and image duplicates; near-duplicates are only listed for review"),
+  moveTo: z.string().optional().describe("Move extra copies under this folder (keeping their paths) instead of trashing them"),
+  root: RootArgument,
+});
+
+const SuggestRenamesSchema = z.object({
+  path: z.string().optional().default("").describe("Folder or file to check (relative to Sparkle folder); empty for the whole folder"),
+  root: RootArgument,
+});
+
+const ApplyRenamesSchema = z.object({
+  renames: z.array(z.object({
+    from: z.string().describe("Current path (relative to Sparkle folder)"),
+    to: z.string().describe("New path (relative to Sparkle folder)"),
+  })).optional().describe("Renames to carry out, e.g. from suggest_renames, possibly edited; omit to apply every suggestion under path"),
+  path: z.string().optional().default("").describe("Folder whose suggestions to apply when renames is omitted"),
+  root: RootArgument,
+});
+
+const UndoRenamesSchema = z.object({
+  id: z.string().optional().describe("Batch id, as returned by apply_renames; defaults to the latest batch"),
+  root: RootArgument,
+});
+
+const PreviewFilingSchema = z.object({
+  root: RootArgument,
+});
+
+const ApplyFilingSchema = z.object({
+  paths: z.array(z.string()).optional().describe("Only file these inbox files (relative to Sparkle folder); omit to file everything preview_filing lists"),
+  root: RootArgument,
+});
+
+const FilingLogSchema = z.object({
+  limit: z.number().int().min(1).optional().default(50).describe("Number of moves to return, newest first"),
+  root: RootArgument,
+});
+
+const ListTrashSchema = z.object({
+  root: RootArgument,
+});
+
+const RestoreFromTrashSchema = z.object({
+  id: z.string().describe("Trash item id, as returned by delete_file or list_trash"),
+  destination: z.string().optional().describe("Where to restore to (relative to Sparkle folder); defaults to the original path"),
+  root: RootArgument,
+});
+
+const EmptyTrashSchema = z.object({
+  ids: z.array(z.string()).optional().describe("Trash item ids to delete permanently; omit to empty the whole trash"),
+  root: RootArgument,
+});
+
+const ListVersionsSchema = z.object({
+  path: z.string().describe("File path to list saved versions for (relative to Sparkle folder)"),
+  root: RootArgument,
+});
+
+const DiffVersionsSchema = z.object({
+  path: z.string().describe("File path (relative to Sparkle folder)"),
+  from: z.string().describe("Version id to diff from, or \"current\" for the file on disk"),
+  to: z.string().optional().default(CURRENT_VERSION).describe("Version id to diff to; defaults to \"current\""),
+  root: RootArgument,
+});
+
+const RestoreVersionSchema = z.object({
+  path: z.string().describe("File path (relative to Sparkle folder)"),
+  versionId: z.string().describe("Version id from list_versions"),
+  root: RootArgument,
 });
 
 const GetFileInfoSchema = z.object({
   path: z.string().describe("File path to get info for (relative to Sparkle folder)"),
+  root: RootArgument,
+});
+
+const IndexStatusSchema = z.object({
+  root: RootArgument,
+});
+
+const ReindexSchema = z.object({
+  path: z.string().optional().default("").describe("Folder or file to reindex (relative to Sparkle folder); empty for the whole folder"),
+  force: z.boolean().optional().default(false).describe("Read every file again, even if its size and modification time are unchanged"),
+  root: RootArgument,
 });
 
 const HealthCheckSchema = z.object({});
 
+// At most one progress notification per interval while reindexing
+const PROGRESS_INTERVAL_MS = 250;
+
 // Clipboard schemas
 const SearchClipboardSchema = z.object({
-  query: z.string().optional().describe("Text to search for in clipboard history"),
+  query: z.string().optional().describe("Text to search for in clipboard history; date phrases like \"yesterday\" or \"last week\" narrow the date range"),
   startDate: z.string().optional().describe("Start date (YYYY-MM-DD) for search range"),
   endDate: z.string().optional().describe("End date (YYYY-MM-DD) for search range"),
   type: z.string().optional().describe("Type of clipboard entry (text, url, image, file-path)"),
   limit: z.number().optional().default(50).describe("Maximum number of entries to return"),
+  root: RootArgument,
 });
 
 const GetClipboardByDateSchema = z.object({
   date: z.string().describe("Date (YYYY-MM-DD) to get clipboard entries for"),
+  root: RootArgument,
 });
 
 const GetRecentClipboardSchema = z.object({
   days: z.number().optional().default(7).describe("Number of days to look back"),
   limit: z.number().optional().default(50).describe("Maximum number of entries to return"),
+  root: RootArgument,
+});
+
+const ClipboardStatsSchema = z.object({
+  root: RootArgument,
 });
 
-const ClipboardStatsSchema = z.object({});
+// One search_files result; `matched` brackets the name characters a fuzzy pattern matched
+interface NameSearchResult {
+  path: string;
+  score: number;
+  matched?: string;
+}
 
 // Main server class
 class SparkleMCPServer {
   private server: Server;
-  private sparkleFolder: SparkleFolder;
+  private roots: RootRegistry | null = null;
+  private resources: SparkleResources | null = null;
+  private prompts: SparklePrompts | null = null;
   private searchEngine: FileSearchEngine;
-  private pathValidator: PathValidator;
   private rateLimiter: RateLimiter;
-  private clipboardHistory: ClipboardHistoryManager;
   private config: SparkleConfig | null = null;
   private startupTime: Date;
 
@@ -99,32 +297,58 @@ class SparkleMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
         },
       }
     );
 
-    // Initialize components with Sparkle folder
-    const sparkleDir = "~/Sparkle";
-    this.sparkleFolder = new SparkleFolder(sparkleDir);
     this.searchEngine = new FileSearchEngine();
-    this.clipboardHistory = new ClipboardHistoryManager(sparkleDir);
-    
-    // IMPORTANT: Only allow access to Sparkle folder
-    // Use expanded path for PathValidator
-    this.pathValidator = new PathValidator({
-      allowedPaths: [this.expandPath(sparkleDir)], // ONLY Sparkle folder (expanded)
-      maxFileSize: 100 * 1024 * 1024, // 100MB max
-      allowSymlinks: false,
-    });
     this.rateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
 
     this.setupHandlers();
-    
-    // Ensure Sparkle folder exists on startup
-    this.ensureSparkleFolder();
-    
-    // Load configuration
-    this.loadConfiguration();
+  }
+
+  /**
+   * Load configuration and bring up every configured root. Each root gets its
+   * own sandbox (the ONLY way file tools touch disk), index/watcher and
+   * clipboard manager.
+   */
+  private async initialize() {
+    await this.loadConfiguration();
+    this.roots = new RootRegistry(this.config!);
+    this.resources = new SparkleResources(this.server, this.roots);
+    this.prompts = new SparklePrompts(this.roots, this.resources);
+
+    // Ensure Sparkle folders exist on startup
+    for (const root of this.roots.list()) {
+      await this.ensureSparkleFolder(root);
+      await root.trash.purgeExpired();
+    }
+  }
+
+  private getResources(): SparkleResources {
+    if (!this.resources) {
+      throw new Error("Sparkle server is still starting up");
+    }
+    return this.resources;
+  }
+
+  private getPrompts(): SparklePrompts {
+    if (!this.prompts) {
+      throw new Error("Sparkle server is still starting up");
+    }
+    return this.prompts;
+  }
+
+  private getRoot(name?: string): SparkleRoot {
+    if (!this.roots) {
+      throw new Error("Sparkle server is still starting up");
+    }
+    return this.roots.get(name);
   }
 
   private setupHandlers() {
@@ -137,29 +361,69 @@ class SparkleMCPServer {
             description: 
               "Automatically retrieves files relevant to the query from your Sparkle folder. " +
               "This tool is called automatically when AI needs file context. " +
-              "Only searches within the ~/Sparkle folder for security.",
+              "Only searches within the selected Sparkle root for security.",
             inputSchema: zodToJsonSchema(GetRelevantFilesSchema),
           },
+          {
+            name: "build_context",
+            description:
+              "Return the actual content of the files most relevant to a query, within a token budget. " +
+              "Whole files are included while they fit, then their best matching passages; the last one " +
+              "is cut at a line boundary. Files that did not fit are listed at the end. " +
+              "Line numbers match read_file (with as: \"text\" for documents).",
+            inputSchema: zodToJsonSchema(BuildContextSchema),
+          },
+          {
+            name: "find_similar_files",
+            description:
+              "Find the files most similar to a given file (\"more like this\"), by shared terms and, " +
+              "when embeddings are configured, meaning. Each result lists the key terms the files share.",
+            inputSchema: zodToJsonSchema(FindSimilarFilesSchema),
+          },
           {
             name: "search_files",
             description:
               "Recursively search for files and directories in Sparkle folder matching a pattern. " +
-              "Case-insensitive partial name matching with optional exclude patterns.",
+              "Plain words match names fuzzily (typos, case, accents, camelCase and snake_case words) and " +
+              "results are ranked by score, with the matched characters in [brackets]. " +
+              "Glob patterns (\"*.txt\") match exactly. Optional exclude patterns.",
             inputSchema: zodToJsonSchema(SearchFilesSchema),
           },
+          {
+            name: "grep_files",
+            description:
+              "Search inside files in the Sparkle folder. Returns each matching line with its line and column " +
+              "number, the matched text and optional surrounding context. Case-insensitive regex by default.",
+            inputSchema: zodToJsonSchema(GrepFilesSchema),
+          },
           {
             name: "read_file",
-            description: "Read the complete contents of a file in the Sparkle folder.",
+            description:
+              "Read a file in the Sparkle folder. Text files are paged by line and other files by byte " +
+              "using offset/limit; the response reports the total size and whether more remains. " +
+              "PNG, JPEG, GIF and WebP images are returned as image content. Use as: \"text\" to read " +
+              "the extracted text of documents (PDF, Word, Excel, PowerPoint, HTML, RTF) instead of their bytes.",
             inputSchema: zodToJsonSchema(ReadFileSchema),
           },
           {
             name: "write_file", 
-            description: "Create or overwrite a file in the Sparkle folder with the provided content.",
+            description:
+              "Create or overwrite a file in the Sparkle folder with the provided content. Writes are atomic. " +
+              "Pass expectedMtime or expectedSha256 from get_file_info to reject the write if the file changed " +
+              "in the meantime, or overwrite: false to only create new files.",
             inputSchema: zodToJsonSchema(WriteFileSchema),
           },
+          {
+            name: "edit_file",
+            description:
+              "Apply exact-match text replacements to a file in the Sparkle folder and return a unified diff. " +
+              "Fails without writing if any oldText is missing or matches more than once. " +
+              "Use dryRun to preview the diff.",
+            inputSchema: zodToJsonSchema(EditFileSchema),
+          },
           {
             name: "list_directory",
-            description: "List the contents of a directory in the Sparkle folder.",
+            description: "List the contents of a directory in the Sparkle folder. Entries matched by .sparkleignore files are hidden unless showIgnored is true.",
             inputSchema: zodToJsonSchema(ListDirectorySchema),
           },
           {
@@ -172,11 +436,104 @@ class SparkleMCPServer {
             description: "Move or rename a file or directory within the Sparkle folder.",
             inputSchema: zodToJsonSchema(MoveFileSchema),
           },
+          {
+            name: "delete_file",
+            description:
+              "Move a file or directory in the Sparkle folder to the Sparkle trash. " +
+              "Items can be brought back with restore_from_trash until the trash is emptied or they expire.",
+            inputSchema: zodToJsonSchema(DeleteFileSchema),
+          },
+          {
+            name: "find_duplicates",
+            description:
+              "Find duplicate files: exact copies, images that differ only in metadata, and nearly identical text documents. " +
+              "Reports the bytes wasted by extra copies. With plan, suggests which copy to keep; with apply, " +
+              "moves the other exact and image copies to the trash (or to moveTo).",
+            inputSchema: zodToJsonSchema(FindDuplicatesSchema),
+          },
+          {
+            name: "suggest_renames",
+            description:
+              "Suggest descriptive names for files with generic ones (IMG_1234.jpg, untitled.md), using the configured " +
+              "rename rules: name patterns, file type, document titles and headings, and photo capture dates. Renames nothing.",
+            inputSchema: zodToJsonSchema(SuggestRenamesSchema),
+          },
+          {
+            name: "apply_renames",
+            description:
+              "Rename files as suggested by suggest_renames (or as given), keeping their version history. " +
+              "Returns a batch id that undo_renames can use to reverse the batch.",
+            inputSchema: zodToJsonSchema(ApplyRenamesSchema),
+          },
+          {
+            name: "undo_renames",
+            description: "Rename the files of an apply_renames batch (or automatic rename) back to their previous names.",
+            inputSchema: zodToJsonSchema(UndoRenamesSchema),
+          },
+          {
+            name: "preview_filing",
+            description:
+              "Show where the filing rules would move each file in the inbox folder (by extension, name pattern, " +
+              "content keywords or size, into folders like Receipts/2024/03), and which files would go to quarantine. Moves nothing.",
+            inputSchema: zodToJsonSchema(PreviewFilingSchema),
+          },
+          {
+            name: "apply_filing",
+            description: "Move inbox files as preview_filing shows. Every move is logged; see filing_log.",
+            inputSchema: zodToJsonSchema(ApplyFilingSchema),
+          },
+          {
+            name: "filing_log",
+            description: "List recent moves made by the filing rules, automatic or through apply_filing, newest first.",
+            inputSchema: zodToJsonSchema(FilingLogSchema),
+          },
+          {
+            name: "list_trash",
+            description: "List items in the Sparkle trash with their original paths and deletion times.",
+            inputSchema: zodToJsonSchema(ListTrashSchema),
+          },
+          {
+            name: "restore_from_trash",
+            description: "Restore an item from the Sparkle trash to its original path or a new destination.",
+            inputSchema: zodToJsonSchema(RestoreFromTrashSchema),
+          },
+          {
+            name: "empty_trash",
+            description: "Permanently delete items from the Sparkle trash. This cannot be undone.",
+            inputSchema: zodToJsonSchema(EmptyTrashSchema),
+          },
+          {
+            name: "list_versions",
+            description:
+              "List saved versions of a Sparkle file. A version is kept automatically before " +
+              "write_file, edit_file, move_file or restore_version changes the file.",
+            inputSchema: zodToJsonSchema(ListVersionsSchema),
+          },
+          {
+            name: "diff_versions",
+            description: "Show a unified diff between two saved versions of a file, or a version and the current file.",
+            inputSchema: zodToJsonSchema(DiffVersionsSchema),
+          },
+          {
+            name: "restore_version",
+            description: "Restore a file to a saved version. The current content is saved as a version first.",
+            inputSchema: zodToJsonSchema(RestoreVersionSchema),
+          },
           {
             name: "get_file_info",
-            description: "Get detailed information about a file or directory in the Sparkle folder.",
+            description: "Get detailed information about a file or directory in the Sparkle folder, including a summary (title, headings and key sentences) of files with text.",
             inputSchema: zodToJsonSchema(GetFileInfoSchema),
           },
+          {
+            name: "index_status",
+            description: "Show indexing progress, the number of indexed files by type, and files whose text could not be read.",
+            inputSchema: zodToJsonSchema(IndexStatusSchema),
+          },
+          {
+            name: "reindex",
+            description: "Index a folder (or the whole Sparkle folder) again and wait for it to finish. Unchanged files are skipped unless force is true. Sends progress notifications when the request has a progress token.",
+            inputSchema: zodToJsonSchema(ReindexSchema),
+          },
           {
             name: "health_check",
             description: "Check the health status of the Sparkle MCP server.",
@@ -204,378 +561,1091 @@ class SparkleMCPServer {
           },
         ],
       };
-    });
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      switch (name) {
+        case "get_relevant_files":
+          return await this.handleGetRelevantFiles(args);
+        case "build_context":
+          return await this.handleBuildContext(args);
+        case "find_similar_files":
+          return await this.handleFindSimilarFiles(args);
+        case "search_files":
+          return await this.handleSearchFiles(args);
+        case "grep_files":
+          return await this.handleGrepFiles(args);
+        case "read_file":
+          return await this.handleReadFile(args);
+        case "write_file":
+          return await this.handleWriteFile(args);
+        case "edit_file":
+          return await this.handleEditFile(args);
+        case "list_directory":
+          return await this.handleListDirectory(args);
+        case "create_directory":
+          return await this.handleCreateDirectory(args);
+        case "move_file":
+          return await this.handleMoveFile(args);
+        case "delete_file":
+          return await this.handleDeleteFile(args);
+        case "find_duplicates":
+          return await this.handleFindDuplicates(args);
+        case "suggest_renames":
+          return await this.handleSuggestRenames(args);
+        case "apply_renames":
+          return await this.handleApplyRenames(args);
+        case "undo_renames":
+          return await this.handleUndoRenames(args);
+        case "preview_filing":
+          return await this.handlePreviewFiling(args);
+        case "apply_filing":
+          return await this.handleApplyFiling(args);
+        case "filing_log":
+          return await this.handleFilingLog(args);
+        case "list_trash":
+          return await this.handleListTrash(args);
+        case "restore_from_trash":
+          return await this.handleRestoreFromTrash(args);
+        case "empty_trash":
+          return await this.handleEmptyTrash(args);
+        case "list_versions":
+          return await this.handleListVersions(args);
+        case "diff_versions":
+          return await this.handleDiffVersions(args);
+        case "restore_version":
+          return await this.handleRestoreVersion(args);
+        case "get_file_info":
+          return await this.handleGetFileInfo(args);
+        case "index_status":
+          return await this.handleIndexStatus(args);
+        case "reindex":
+          return await this.handleReindex(args, request.params._meta?.progressToken, extra.sendNotification);
+        case "health_check":
+          return await this.handleHealthCheck(args);
+        case "search_clipboard":
+          return await this.handleSearchClipboard(args);
+        case "get_clipboard_by_date":
+          return await this.handleGetClipboardByDate(args);
+        case "get_recent_clipboard":
+          return await this.handleGetRecentClipboard(args);
+        case "clipboard_stats":
+          return await this.handleClipboardStats(args);
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    });
+
+    // Sparkle files as resources: sparkle://<root>/<path>
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return await this.getResources().listResources(request.params?.cursor);
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return this.getResources().listTemplates();
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      console.error(`read_resource: ${request.params.uri}`);
+      return await this.getResources().readResource(request.params.uri);
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.getResources().subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.getResources().unsubscribe(request.params.uri);
+      return {};
+    });
+
+    // One-click workflows built on top of the tools
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return this.getPrompts().listPrompts();
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      console.error(`get_prompt: ${name}`);
+      return await this.getPrompts().getPrompt(name, args);
+    });
+  }
+
+  private async handleGetRelevantFiles(args: any) {
+    const { query, maxFiles, root } = GetRelevantFilesSchema.parse(args);
+
+    try {
+      // Rate limiting check
+      if (!this.rateLimiter.checkLimit("get_files")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      // ONLY search in the selected Sparkle root
+      const { folder } = this.getRoot(root);
+      const sparkleFiles = await folder.findRelevant(query, maxFiles);
+      const parsedQuery = describeQuery(parseSearchQuery(query));
+      
+      // All files from SparkleFolder are already validated
+      const validatedFiles = sparkleFiles;
+      
+      const finalResults = validatedFiles
+        .slice(0, maxFiles)
+        .sort((a, b) => b.relevance - a.relevance);
+
+      return {
+        content: [{
+          type: "text",
+          text: `${this.indexingNote(folder)}Query read as: ${parsedQuery}\n\n${this.formatFileResults(finalResults, query)}`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error retrieving files: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleBuildContext(args: any) {
+    const { query, tokenBudget, maxFiles, root } = BuildContextSchema.parse(args);
+
+    try {
+      if (!this.rateLimiter.checkLimit("get_files")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      const { folder, sandbox } = this.getRoot(root);
+      const files = await folder.findRelevant(query, maxFiles);
+      const candidates = files.map(file => ({
+        path: sandbox.relative(file.path),
+        fullPath: file.path,
+        passages: file.passages,
+      }));
+      const focusTerms = tokenize(parseSearchQuery(query).freeText);
+      const pack = await buildContextPack(candidates, tokenBudget, focusTerms, candidate =>
+        folder.readIndexedText(candidate.fullPath)
+      );
+
+      if (pack.sections.length === 0 && pack.omitted.length === 0) {
+        return {
+          content: [{ type: "text", text: `No files found matching "${query}"` }],
+        };
+      }
+      return {
+        content: [{ type: "text", text: `${this.indexingNote(folder)}${renderContextPack(pack, query)}` }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error building context: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleFindSimilarFiles(args: any) {
+    const { path: filePath, maxFiles, root } = FindSimilarFilesSchema.parse(args);
+
+    try {
+      if (!this.rateLimiter.checkLimit("get_files")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      const { sandbox, folder } = this.getRoot(root);
+      const fullPath = await sandbox.resolve(filePath);
+      const similar = await folder.findSimilar(fullPath, maxFiles);
+      const source = sandbox.relative(fullPath);
+      if (similar.length === 0) {
+        return {
+          content: [{ type: "text", text: `${this.indexingNote(folder)}No files similar to ${source} found` }],
+        };
+      }
+
+      let output = `Files similar to ${source}:\n\n`;
+      similar.forEach((file, index) => {
+        const parts = file.vectorSimilarity === undefined
+          ? ""
+          : ` (terms ${Math.round(file.termSimilarity * 100)}%, meaning ${Math.round(Math.max(0, file.vectorSimilarity) * 100)}%)`;
+        output += `${index + 1}. ${sandbox.relative(file.path)}\n`;
+        output += `   Similarity: ${Math.round(file.similarity * 100)}%${parts}\n`;
+        if (file.sharedTerms.length > 0) {
+          output += `   Shared terms: ${file.sharedTerms.join(", ")}\n`;
+        }
+        if (file.summary) {
+          output += `   Summary: ${file.summary}\n`;
+        }
+        output += "\n";
+      });
+
+      return {
+        content: [{ type: "text", text: `${this.indexingNote(folder)}${output.trimEnd()}` }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error finding similar files: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleSearchFiles(args: any) {
+    const { path: searchPath, pattern, excludePatterns = [], root } = SearchFilesSchema.parse(args);
+
+    try {
+      console.error(`search_files called with path: "${searchPath}", pattern: "${pattern}"`);
+      
+      // Rate limiting check
+      if (!this.rateLimiter.checkLimit("search")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      // Resolve within the Sparkle folder (relative or absolute, "" means root)
+      const { sandbox, ignore } = this.getRoot(root);
+      const fullSearchPath = await sandbox.resolve(searchPath);
+      console.error(`Full search path: ${fullSearchPath}`);
+
+      // Filters narrow the results; the remaining text is the name pattern
+      const parsed = parseSearchQuery(pattern);
+      const namePattern = parsed.freeText.trim() || "*";
+      const results = (await this.recursiveSearch(sandbox, ignore, fullSearchPath, namePattern, excludePatterns, parsed))
+        .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            query: describeQuery(parsed),
+            results,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      console.error("Search error:", error);
+      return {
+        content: [{
+          type: "text",
+          text: `Search error: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleGrepFiles(args: any) {
+    const {
+      pattern,
+      path: searchPath,
+      regex,
+      caseSensitive,
+      include,
+      exclude,
+      contextLines,
+      maxMatchesPerFile,
+      maxFiles,
+      root,
+    } = GrepFilesSchema.parse(args);
+
+    try {
+      console.error(`grep_files called with path: "${searchPath}", pattern: "${pattern}"`);
+
+      if (!this.rateLimiter.checkLimit("search")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      const { sandbox, ignore } = this.getRoot(root);
+      const fullSearchPath = await sandbox.resolve(searchPath);
+
+      const results = await this.searchEngine.grep({
+        searchPath: fullSearchPath,
+        pattern,
+        literal: !regex,
+        caseSensitive,
+        include,
+        exclude,
+        contextLines,
+        maxMatchesPerFile,
+        maxFiles,
+        ignore,
+      });
+
+      const files = results.map(result => ({
+        ...result,
+        path: sandbox.relative(result.path),
+      }));
+      const totalMatches = files.reduce((sum, file) => sum + file.matches.length, 0);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            pattern,
+            totalFiles: files.length,
+            totalMatches,
+            truncated: files.length >= maxFiles,
+            files,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      console.error("Grep error:", error);
+      return {
+        content: [{
+          type: "text",
+          text: `Grep error: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async recursiveSearch(
+    sandbox: SparkleSandbox,
+    ignore: IgnoreRules,
+    searchPath: string,
+    pattern: string,
+    excludePatterns: string[],
+    parsed: ParsedQuery
+  ): Promise<NameSearchResult[]> {
+    const results: NameSearchResult[] = [];
+    
+    try {
+      const entries = await fs.readdir(searchPath, { withFileTypes: true });
+      
+      for (const entry of entries) {
+        const fullPath = path.join(searchPath, entry.name);
+        const relativePath = sandbox.relative(fullPath);
+        
+        // Never surface the trash or other server-managed folders, or .sparkleignore'd paths
+        if (isInternalPath(relativePath) || ignore.isIgnored(fullPath, entry.isDirectory())) continue;
+        
+        // Check if excluded
+        const isExcluded = excludePatterns.some(excludePattern => {
+          return entry.name.includes(excludePattern) || relativePath.includes(excludePattern);
+        }) || parsed.excludedText.some(text => relativePath.toLowerCase().includes(text));
+        
+        if (isExcluded) continue;
+        
+        // Check if matches pattern
+        let matches = false;
+        let score = 1;
+        let matched: string | undefined;
+        if (pattern === '*') {
+          // Match all files
+          matches = true;
+        } else if (pattern.startsWith('*.')) {
+          // Extension matching (e.g., *.txt)
+          const ext = pattern.slice(1); // Remove the *
+          matches = entry.name.endsWith(ext);
+        } else if (pattern.includes('*')) {
+          // Simple glob pattern
+          const regex = new RegExp('^' + pattern.replace(/\*/g, '.*') + '$', 'i');
+          matches = regex.test(entry.name);
+        } else {
+          // Typo-tolerant name matching, ranked by score
+          const match = fuzzyMatch(pattern, entry.name);
+          if (match) {
+            matches = true;
+            score = Math.round(match.score * 100) / 100;
+            matched = highlightMatch(entry.name, match.positions);
+          }
+        }
+        
+        // Query filters (type:, size:, ...) describe files, so they rule out directories
+        if (matches && hasQueryFilters(parsed)) {
+          if (entry.isFile()) {
+            const stats = await fs.stat(fullPath);
+            matches = matchesQueryFilters(
+              { relativePath, size: stats.size, modified: stats.mtime, created: stats.birthtime },
+              parsed
+            );
+          } else {
+            matches = false;
+          }
+        }
+        
+        if (matches) {
+          results.push({ path: relativePath, score, matched });
+        }
+        
+        // Recurse into directories
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          const subResults = await this.recursiveSearch(sandbox, ignore, fullPath, pattern, excludePatterns, parsed);
+          results.push(...subResults);
+        }
+      }
+    } catch (error) {
+      console.error(`Error searching ${searchPath}:`, error);
+    }
+    
+    return results;
+  }
+
+  private async handleReadFile(args: any) {
+    const { path: filePath, offset, limit, as, root } = ReadFileSchema.parse(args);
+    
+    try {
+      const sparkleRoot = this.getRoot(root);
+      // Pages and byte ranges of files over the size limit can be read; document text has its own limit
+      const ranged = offset !== undefined || limit !== undefined;
+      const fullPath = await sparkleRoot.sandbox.resolve(filePath, ranged);
+      const range = await readFileRange(fullPath, { offset, limit, as });
+      
+      if (range.kind === "image") {
+        return {
+          content: [
+            {
+              type: "image",
+              data: range.data,
+              mimeType: range.mimeType,
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ path: filePath, mimeType: range.mimeType, totalBytes: range.totalBytes }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      if (range.kind === "text") {
+        const { text, kind, ...info } = range;
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+            {
+              type: "text",
+              text: JSON.stringify({ path: filePath, ...info }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      // Other binaries come back as an embedded resource blob
+      const { data, kind, ...info } = range;
+      return {
+        content: [
+          {
+            type: "resource",
+            resource: {
+              uri: toResourceUri(sparkleRoot.name, sparkleRoot.sandbox.relative(fullPath)),
+              mimeType: range.mimeType,
+              blob: data,
+            },
+          },
+          {
+            type: "text",
+            text: JSON.stringify({ path: filePath, ...info }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error reading file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleWriteFile(args: any) {
+    const { path: filePath, content, overwrite, expectedMtime, expectedSha256, root } = WriteFileSchema.parse(args);
+    
+    try {
+      const { sandbox, versions } = this.getRoot(root);
+      const fullPath = await sandbox.writeFile(filePath, content, {
+        overwrite,
+        expectedMtime,
+        expectedSha256,
+        // Only a write that goes ahead leaves a version behind
+        beforeReplace: () => versions.snapshot(filePath, "write_file"),
+      });
+      const stats = await fs.stat(fullPath);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Successfully wrote to ${filePath}\n` + JSON.stringify({
+            modified: stats.mtime,
+            size: stats.size,
+            sha256: sha256(content),
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error writing file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleEditFile(args: any) {
+    const { path: filePath, edits, dryRun, root } = EditFileSchema.parse(args);
+    
+    try {
+      const { sandbox, versions } = this.getRoot(root);
+      const original = await sandbox.readTextFile(filePath);
+      const updated = applyEdits(original, edits);
+      const diff = createUnifiedDiff(filePath, original, updated);
+      
+      if (!dryRun) {
+        // Refuse to clobber changes made between our read and this write
+        await sandbox.writeFile(filePath, updated, {
+          expectedSha256: sha256(original),
+          beforeReplace: () => versions.snapshot(filePath, "edit_file"),
+        });
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `${dryRun ? "Dry run, no changes written" : `Successfully edited ${filePath}`}\n\n${diff}`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error editing file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleListDirectory(args: any) {
+    const { path: dirPath, showIgnored, root } = ListDirectorySchema.parse(args);
+    
+    try {
+      console.error(`list_directory called with path: "${dirPath}"`);
+      
+      // Handle empty path or "." as sparkle root
+      const { sandbox, ignore } = this.getRoot(root);
+      const fullPath = await sandbox.resolve(dirPath);
+      const entries = (await sandbox.readDirectory(dirPath)).filter(entry => {
+        const entryPath = path.join(fullPath, entry.name);
+        return !isInternalPath(sandbox.relative(entryPath)) &&
+          (showIgnored || !ignore.isIgnored(entryPath, entry.isDirectory()));
+      });
+      const formatted = entries.map(entry => {
+        const prefix = entry.isDirectory() ? "[DIR]" : "[FILE]";
+        return `${prefix} ${entry.name}`;
+      });
+      
+      console.error(`Found ${entries.length} entries in ${dirPath || "."}`);
+      
+      return {
+        content: [{
+          type: "text",
+          text: formatted.length > 0 ? formatted.join('\n') : "Empty directory",
+        }],
+      };
+    } catch (error) {
+      console.error("List directory error:", error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error listing directory: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleCreateDirectory(args: any) {
+    const { path: dirPath, root } = CreateDirectorySchema.parse(args);
+    
+    try {
+      const { sandbox } = this.getRoot(root);
+      await sandbox.createDirectory(dirPath);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Successfully created directory ${dirPath}`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error creating directory: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleMoveFile(args: any) {
+    const { source, destination, root } = MoveFileSchema.parse(args);
+    
+    try {
+      await this.moveWithHistory(this.getRoot(root), source, destination);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Successfully moved ${source} to ${destination}`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error moving file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleDeleteFile(args: any) {
+    const { path: filePath, root } = DeleteFileSchema.parse(args);
+    
+    try {
+      const entry = await this.moveToTrash(this.getRoot(root), filePath);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Moved ${entry.originalPath} to the trash (id: ${entry.id})`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error deleting file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Move a file as move_file does, saving both ends as versions once the
+   * move is allowed.
+   */
+  private async moveWithHistory({ sandbox, versions }: SparkleRoot, source: string, destination: string) {
+    const moved = await sandbox.move(source, destination, {
+      beforeReplace: async () => {
+        await versions.snapshot(source, "move_file");
+        await versions.snapshot(destination, "overwritten by move_file");
+      },
+    });
+    await versions.move(sandbox.relative(moved.from), sandbox.relative(moved.to));
+    return moved;
+  }
+
+  /**
+   * Trash a file as delete_file does, dropping it from the index right away.
+   */
+  private async moveToTrash({ trash, folder }: SparkleRoot, filePath: string) {
+    const entry = await trash.moveToTrash(filePath);
+    folder.forget(entry.originalPath);
+    return entry;
+  }
+
+  private async handleFindDuplicates(args: any) {
+    const { path: searchPath, near, minSimilarity, images, plan, apply, moveTo, root } = FindDuplicatesSchema.parse(args);
+
+    try {
+      if (!this.rateLimiter.checkLimit("search")) {
+        throw new Error("Rate limit exceeded. Please try again later.");
+      }
+
+      const sparkleRoot = this.getRoot(root);
+      const { sandbox, folder } = sparkleRoot;
+      const scope = sandbox.relative(await sandbox.resolve(searchPath));
+      console.error(`find_duplicates called with path: "${searchPath}"`);
+
+      const candidates: DuplicateCandidate[] = (await folder.listFiles())
+        .map(file => ({
+          path: sandbox.relative(file.path),
+          fullPath: file.path,
+          size: file.size,
+          modified: file.modified,
+          signature: near ? folder.getSignature(file.path) : undefined,
+        }))
+        .filter(file => !scope || file.path.startsWith(scope + path.sep));
+      const report = await findDuplicates(candidates, { near, images, minSimilarity });
+
+      const steps = plan || apply
+        ? report.groups.map(group => ({
+          kind: group.kind,
+          keep: group.files[0],
+          others: group.files.slice(1),
+          action: group.kind === "near" ? "review" : moveTo ? `move under ${moveTo}` : "trash",
+        }))
+        : undefined;
+
+      const applied: { path: string; result: string }[] = [];
+      if (apply) {
+        const scanned = new Map(candidates.map(file => [file.path, file]));
+        for (const step of steps!.filter(step => step.kind !== "near")) {
+          for (const filePath of step.others) {
+            try {
+              // Leave files alone that changed after they were compared
+              const before = scanned.get(filePath)!;
+              const stats = await sandbox.stat(filePath);
+              if (stats.size !== before.size || stats.mtime.getTime() !== before.modified.getTime()) {
+                applied.push({ path: filePath, result: "skipped: changed since it was compared" });
+                continue;
+              }
+
+              if (moveTo) {
+                const destination = path.join(moveTo, filePath);
+                if (await sandbox.stat(destination).then(() => true, () => false)) {
+                  applied.push({ path: filePath, result: `skipped: ${destination} already exists` });
+                  continue;
+                }
+                await this.moveWithHistory(sparkleRoot, filePath, destination);
+                applied.push({ path: filePath, result: `moved to ${destination}` });
+              } else {
+                const entry = await this.moveToTrash(sparkleRoot, filePath);
+                applied.push({ path: filePath, result: `trashed (id: ${entry.id})` });
+              }
+            } catch (error) {
+              applied.push({ path: filePath, result: `error: ${error instanceof Error ? error.message : String(error)}` });
+            }
+          }
+        }
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `${this.indexingNote(folder)}${JSON.stringify({
+            ...report,
+            plan: steps,
+            applied: apply ? applied : undefined,
+          }, null, 2)}`,
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error finding duplicates: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleSuggestRenames(args: any) {
+    const { path: searchPath, root } = SuggestRenamesSchema.parse(args);
+
+    try {
+      const { sandbox, folder, renames } = this.getRoot(root);
+      const scope = sandbox.relative(await sandbox.resolve(searchPath));
+      const suggestions = await renames.suggest(scope);
+
+      return {
+        content: [{
+          type: "text",
+          text: this.indexingNote(folder) + (suggestions.length > 0
+            ? JSON.stringify(suggestions, null, 2)
+            : "No files with names the rename rules would change"),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error suggesting renames: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleApplyRenames(args: any) {
+    const { renames: requested, path: searchPath, root } = ApplyRenamesSchema.parse(args);
+
+    try {
+      const { sandbox, renames } = this.getRoot(root);
+      const toApply = requested || await renames.suggest(sandbox.relative(await sandbox.resolve(searchPath)));
+      const { batch, skipped } = await renames.apply(toApply);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ id: batch?.id, renamed: batch?.renames || [], skipped }, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error applying renames: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      console.error(`call_tool: ${name}`);
+  private async handleUndoRenames(args: any) {
+    const { id, root } = UndoRenamesSchema.parse(args);
 
-      switch (name) {
-        case "get_relevant_files":
-          return await this.handleGetRelevantFiles(args);
-        case "search_files":
-          return await this.handleSearchFiles(args);
-        case "read_file":
-          return await this.handleReadFile(args);
-        case "write_file":
-          return await this.handleWriteFile(args);
-        case "list_directory":
-          return await this.handleListDirectory(args);
-        case "create_directory":
-          return await this.handleCreateDirectory(args);
-        case "move_file":
-          return await this.handleMoveFile(args);
-        case "get_file_info":
-          return await this.handleGetFileInfo(args);
-        case "health_check":
-          return await this.handleHealthCheck(args);
-        case "search_clipboard":
-          return await this.handleSearchClipboard(args);
-        case "get_clipboard_by_date":
-          return await this.handleGetClipboardByDate(args);
-        case "get_recent_clipboard":
-          return await this.handleGetRecentClipboard(args);
-        case "clipboard_stats":
-          return await this.handleClipboardStats(args);
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-    });
+    try {
+      const { batch, skipped } = await this.getRoot(root).renames.undo(id);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ id: batch!.id, restored: batch!.renames, skipped }, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error undoing renames: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
   }
 
-  private async handleGetRelevantFiles(args: any) {
-    const { query, maxFiles } = GetRelevantFilesSchema.parse(args);
+  private async handlePreviewFiling(args: any) {
+    const { root } = PreviewFilingSchema.parse(args);
 
     try {
-      // Rate limiting check
-      if (!this.rateLimiter.checkLimit("get_files")) {
-        throw new Error("Rate limit exceeded. Please try again later.");
+      const { folder, filing } = this.getRoot(root);
+      if (!filing.hasRules()) {
+        throw new Error("No filing rules configured. Add them under settings.filing.rules in .mcp-config.json");
       }
-
-      // ONLY search in Sparkle folder
-      const sparkleFiles = await this.sparkleFolder.findRelevant(query, maxFiles);
-      
-      // All files from SparkleFolder are already validated
-      const validatedFiles = sparkleFiles;
-      
-      const finalResults = validatedFiles
-        .slice(0, maxFiles)
-        .sort((a, b) => b.relevance - a.relevance);
+      const preview = await filing.preview();
 
       return {
         content: [{
           type: "text",
-          text: this.formatFileResults(finalResults, query),
+          text: this.indexingNote(folder) + (preview.moves.length > 0 || preview.unmatched.length > 0
+            ? JSON.stringify(preview, null, 2)
+            : "The inbox is empty"),
         }],
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `Error retrieving files: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error previewing filing: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async handleSearchFiles(args: any) {
-    const { path: searchPath, pattern, excludePatterns = [] } = SearchFilesSchema.parse(args);
+  private async handleApplyFiling(args: any) {
+    const { paths, root } = ApplyFilingSchema.parse(args);
 
     try {
-      console.error(`search_files called with path: "${searchPath}", pattern: "${pattern}"`);
-      
-      // Rate limiting check
-      if (!this.rateLimiter.checkLimit("search")) {
-        throw new Error("Rate limit exceeded. Please try again later.");
+      const { sandbox, filing } = this.getRoot(root);
+      if (!filing.hasRules()) {
+        throw new Error("No filing rules configured. Add them under settings.filing.rules in .mcp-config.json");
       }
+      const selected = paths && new Set(await Promise.all(paths.map(async filePath => sandbox.relative(await sandbox.resolve(filePath)))));
+      const { moves } = await filing.preview();
+      const result = await filing.apply(moves.filter(move => !selected || selected.has(move.from)));
 
-      // Build full path within Sparkle folder
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      console.error(`Sparkle root: ${sparkleRoot}`);
-      
-      // Handle both relative and absolute paths
-      let fullSearchPath: string;
-      if (searchPath && path.isAbsolute(searchPath)) {
-        // If absolute path is provided, use it directly but validate it's in Sparkle
-        fullSearchPath = searchPath;
-      } else {
-        // Otherwise resolve relative to Sparkle root
-        // Empty string or "." should resolve to sparkle root
-        fullSearchPath = searchPath ? path.resolve(sparkleRoot, searchPath) : sparkleRoot;
-      }
-      
-      console.error(`Full search path: ${fullSearchPath}`);
-      
-      // Ensure the path doesn't escape the Sparkle folder
-      if (!fullSearchPath.startsWith(sparkleRoot)) {
-        throw new Error(`Access denied: Path is outside Sparkle folder - ${fullSearchPath} does not start with ${sparkleRoot}`);
-      }
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error applying filing: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
 
-      // Check if the path exists
-      try {
-        await fs.stat(fullSearchPath);
-      } catch (error) {
-        throw new Error(`Path does not exist: ${fullSearchPath}`);
-      }
+  private async handleFilingLog(args: any) {
+    const { limit, root } = FilingLogSchema.parse(args);
 
-      const results = await this.recursiveSearch(fullSearchPath, pattern, excludePatterns);
+    try {
+      const entries = await this.getRoot(root).filing.readLog(limit);
 
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(results, null, 2),
+          text: entries.length > 0 ? JSON.stringify(entries, null, 2) : "No files have been filed yet",
         }],
       };
     } catch (error) {
-      console.error("Search error:", error);
       return {
         content: [{
           type: "text",
-          text: `Search error: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error reading filing log: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async recursiveSearch(searchPath: string, pattern: string, excludePatterns: string[]): Promise<string[]> {
-    const results: string[] = [];
+  private async handleListTrash(args: any) {
+    const { root } = ListTrashSchema.parse(args);
     
     try {
-      const entries = await fs.readdir(searchPath, { withFileTypes: true });
+      const { trash } = this.getRoot(root);
+      const entries = await trash.list();
       
-      for (const entry of entries) {
-        const fullPath = path.join(searchPath, entry.name);
-        const relativePath = path.relative(this.expandPath("~/Sparkle"), fullPath);
-        
-        // Check if excluded
-        const isExcluded = excludePatterns.some(excludePattern => {
-          return entry.name.includes(excludePattern) || relativePath.includes(excludePattern);
-        });
-        
-        if (isExcluded) continue;
-        
-        // Check if matches pattern
-        let matches = false;
-        if (pattern === '*') {
-          // Match all files
-          matches = true;
-        } else if (pattern.startsWith('*.')) {
-          // Extension matching (e.g., *.txt)
-          const ext = pattern.slice(1); // Remove the *
-          matches = entry.name.endsWith(ext);
-        } else if (pattern.includes('*')) {
-          // Simple glob pattern
-          const regex = new RegExp('^' + pattern.replace(/\*/g, '.*') + '$', 'i');
-          matches = regex.test(entry.name);
-        } else {
-          // Partial name matching (case-insensitive)
-          matches = entry.name.toLowerCase().includes(pattern.toLowerCase());
-        }
-        
-        if (matches) {
-          results.push(relativePath);
-        }
-        
-        // Recurse into directories
-        if (entry.isDirectory() && !entry.name.startsWith('.')) {
-          const subResults = await this.recursiveSearch(fullPath, pattern, excludePatterns);
-          results.push(...subResults);
-        }
-      }
+      return {
+        content: [{
+          type: "text",
+          text: entries.length > 0 ? JSON.stringify(entries, null, 2) : "Trash is empty",
+        }],
+      };
     } catch (error) {
-      console.error(`Error searching ${searchPath}:`, error);
+      return {
+        content: [{
+          type: "text",
+          text: `Error listing trash: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
     }
-    
-    return results;
   }
 
-  private async handleReadFile(args: any) {
-    const { path: filePath } = ReadFileSchema.parse(args);
+  private async handleRestoreFromTrash(args: any) {
+    const { id, destination, root } = RestoreFromTrashSchema.parse(args);
     
     try {
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      const fullPath = path.resolve(sparkleRoot, filePath);
+      const { trash } = this.getRoot(root);
+      const restored = await trash.restore(id, destination);
       
-      // Ensure path is within Sparkle folder
-      if (!fullPath.startsWith(sparkleRoot)) {
-        throw new Error("Access denied: Path is outside Sparkle folder");
-      }
-      
-      // Check file extension to determine if it's binary
-      const ext = path.extname(fullPath).toLowerCase();
-      const binaryExtensions = ['.pdf', '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.tiff', '.webp', '.svg', '.mp3', '.mp4', '.wav', '.mov', '.avi', '.zip', '.tar', '.gz', '.7z', '.rar'];
-      const isBinary = binaryExtensions.includes(ext);
-      
-      if (isBinary) {
-        // Read as binary and return base64
-        const buffer = await fs.readFile(fullPath);
-        const base64 = buffer.toString('base64');
-        
-        return {
-          content: [{
-            type: "text",
-            text: `[Binary file: ${ext}]\nSize: ${buffer.length} bytes\nBase64 encoding:\n${base64}`,
-          }],
-        };
-      } else {
-        // Read as text
-        const content = await fs.readFile(fullPath, 'utf-8');
-        
-        return {
-          content: [{
-            type: "text", 
-            text: content,
-          }],
-        };
-      }
+      return {
+        content: [{
+          type: "text",
+          text: `Restored ${restored.originalPath} to ${restored.restoredTo}`,
+        }],
+      };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `Error reading file: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error restoring from trash: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async handleWriteFile(args: any) {
-    const { path: filePath, content } = WriteFileSchema.parse(args);
+  private async handleEmptyTrash(args: any) {
+    const { ids, root } = EmptyTrashSchema.parse(args);
     
     try {
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      const fullPath = path.resolve(sparkleRoot, filePath);
-      
-      // Ensure directory exists
-      await fs.mkdir(path.dirname(fullPath), { recursive: true });
-      
-      await fs.writeFile(fullPath, content, 'utf-8');
+      const { trash } = this.getRoot(root);
+      const removed = await trash.empty(ids);
       
       return {
         content: [{
           type: "text",
-          text: `Successfully wrote to ${filePath}`,
+          text: `Permanently deleted ${removed.length} item(s) from the trash`,
         }],
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `Error writing file: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error emptying trash: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async handleListDirectory(args: any) {
-    const { path: dirPath } = ListDirectorySchema.parse(args);
+  private async handleListVersions(args: any) {
+    const { path: filePath, root } = ListVersionsSchema.parse(args);
     
     try {
-      console.error(`list_directory called with path: "${dirPath}"`);
-      
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      console.error(`Sparkle root: ${sparkleRoot}`);
-      
-      // Handle empty path or "." as sparkle root
-      const fullPath = dirPath ? path.resolve(sparkleRoot, dirPath) : sparkleRoot;
-      console.error(`Full path: ${fullPath}`);
-      
-      // Ensure the path doesn't escape the Sparkle folder
-      if (!fullPath.startsWith(sparkleRoot)) {
-        throw new Error(`Access denied: Path is outside Sparkle folder - ${fullPath} does not start with ${sparkleRoot}`);
-      }
-      
-      // Check if the path exists and is a directory
-      const stats = await fs.stat(fullPath);
-      if (!stats.isDirectory()) {
-        throw new Error(`Not a directory: ${fullPath}`);
-      }
-      
-      const entries = await fs.readdir(fullPath, { withFileTypes: true });
-      const formatted = entries.map(entry => {
-        const prefix = entry.isDirectory() ? "[DIR]" : "[FILE]";
-        return `${prefix} ${entry.name}`;
-      });
-      
-      console.error(`Found ${entries.length} entries in ${fullPath}`);
+      const { versions } = this.getRoot(root);
+      const list = await versions.list(filePath);
       
       return {
         content: [{
           type: "text",
-          text: formatted.length > 0 ? formatted.join('\n') : "Empty directory",
+          text: list.length > 0 ? JSON.stringify(list, null, 2) : `No saved versions for ${filePath}`,
         }],
       };
     } catch (error) {
-      console.error("List directory error:", error);
       return {
         content: [{
           type: "text",
-          text: `Error listing directory: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error listing versions: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async handleCreateDirectory(args: any) {
-    const { path: dirPath } = CreateDirectorySchema.parse(args);
+  private async handleDiffVersions(args: any) {
+    const { path: filePath, from, to, root } = DiffVersionsSchema.parse(args);
     
     try {
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      const fullPath = path.resolve(sparkleRoot, dirPath);
-      
-      await fs.mkdir(fullPath, { recursive: true });
+      const { versions } = this.getRoot(root);
+      const diff = await versions.diff(filePath, from, to);
       
       return {
         content: [{
           type: "text",
-          text: `Successfully created directory ${dirPath}`,
+          text: diff,
         }],
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `Error creating directory: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error diffing versions: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
     }
   }
 
-  private async handleMoveFile(args: any) {
-    const { source, destination } = MoveFileSchema.parse(args);
+  private async handleRestoreVersion(args: any) {
+    const { path: filePath, versionId, root } = RestoreVersionSchema.parse(args);
     
     try {
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      const sourcePath = path.resolve(sparkleRoot, source);
-      const destPath = path.resolve(sparkleRoot, destination);
-      
-      // Ensure source path is within Sparkle folder
-      if (!sourcePath.startsWith(sparkleRoot) || !destPath.startsWith(sparkleRoot)) {
-        throw new Error("Access denied: Path is outside Sparkle folder");
-      }
-      
-      // Ensure destination directory exists
-      await fs.mkdir(path.dirname(destPath), { recursive: true });
-      
-      await fs.rename(sourcePath, destPath);
+      const { versions } = this.getRoot(root);
+      const version = await versions.restore(filePath, versionId);
       
       return {
         content: [{
           type: "text",
-          text: `Successfully moved ${source} to ${destination}`,
+          text: `Restored ${filePath} to version ${version.id} from ${version.createdAt}`,
         }],
       };
     } catch (error) {
       return {
         content: [{
           type: "text",
-          text: `Error moving file: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error restoring version: ${error instanceof Error ? error.message : String(error)}`,
         }],
         isError: true,
       };
@@ -583,17 +1653,11 @@ class SparkleMCPServer {
   }
 
   private async handleGetFileInfo(args: any) {
-    const { path: filePath } = GetFileInfoSchema.parse(args);
+    const { path: filePath, root } = GetFileInfoSchema.parse(args);
     
     try {
-      const sparkleRoot = this.expandPath("~/Sparkle");
-      const fullPath = path.resolve(sparkleRoot, filePath);
-      
-      // Ensure path is within Sparkle folder
-      if (!fullPath.startsWith(sparkleRoot)) {
-        throw new Error("Access denied: Path is outside Sparkle folder");
-      }
-      
+      const { sandbox, folder } = this.getRoot(root);
+      const fullPath = await sandbox.resolve(filePath);
       const stats = await fs.stat(fullPath);
       
       const info = {
@@ -604,12 +1668,17 @@ class SparkleMCPServer {
         modified: stats.mtime,
         accessed: stats.atime,
         permissions: '0' + (stats.mode & parseInt('777', 8)).toString(8),
+        // Pass back to write_file as expectedSha256 / expectedMtime
+        sha256: stats.isFile() ? await sha256File(fullPath) : undefined,
+        // Title, headings and key sentences, for files the index has text for
+        summary: stats.isFile() ? await folder.getSummary(fullPath, stats) : undefined,
       };
       
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(info, null, 2),
+          // The summary may be missing because the first index pass has not reached the file yet
+          text: `${this.indexingNote(folder)}${JSON.stringify(info, null, 2)}`,
         }],
       };
     } catch (error) {
@@ -623,6 +1692,94 @@ class SparkleMCPServer {
     }
   }
 
+  private async handleIndexStatus(args: any) {
+    const { root } = IndexStatusSchema.parse(args);
+
+    try {
+      const { name, folder } = this.getRoot(root);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ root: name, ...folder.getIndexStatus() }, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error getting index status: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleReindex(
+    args: any,
+    progressToken: string | number | undefined,
+    sendNotification: (notification: ServerNotification) => Promise<void>
+  ) {
+    const { path: targetPath, force, root } = ReindexSchema.parse(args);
+
+    try {
+      const { sandbox, folder } = this.getRoot(root);
+      const fullPath = await sandbox.resolve(targetPath);
+      await fs.stat(fullPath);
+      console.error(`reindex called with path: "${targetPath}", force: ${force}`);
+
+      let lastSent = 0;
+      const onProgress = progressToken === undefined ? undefined : (run: IndexRun) => {
+        const now = Date.now();
+        if (run.processed < run.total && now - lastSent < PROGRESS_INTERVAL_MS) return;
+        lastSent = now;
+        sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: run.processed,
+            total: run.total,
+            message: `Indexed ${run.processed} of ${run.total} files`,
+          },
+        }).catch(error => console.error("Error sending progress:", error));
+      };
+
+      const run = await folder.reindex(sandbox.relative(fullPath), force, onProgress);
+      const scopeErrors = folder.getIndexStatus().errors.filter(error =>
+        !run.scope || error.path === run.scope || error.path.startsWith(run.scope + path.sep)
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            path: targetPath || ".",
+            ...run,
+            seconds: (run.finishedAt!.getTime() - run.startedAt.getTime()) / 1000,
+            errors: scopeErrors,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error reindexing: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * A warning line for results computed while the index is still being built.
+   */
+  private indexingNote(folder: SparkleFolder): string {
+    const { state, run } = folder.getIndexStatus();
+    if (state === "ready") return "";
+    const progress = run && run.total > 0 ? ` (${run.processed} of ${run.total} files done)` : "";
+    return `Note: indexing is in progress${progress}; results may be incomplete.\n\n`;
+  }
+
   private hasGoodResults(files: any[], needed: number): boolean {
     // Check if we have enough high-relevance results
     const highRelevance = files.filter(f => f.relevance > 0.7);
@@ -634,15 +1791,19 @@ class SparkleMCPServer {
       return `No files found matching "${query}"`;
     }
 
-    let result = `Found ${files.length} relevant files for "${query}":\\n\\n`;
+    let result = `Found ${files.length} relevant files for "${query}":\n\n`;
+    const queryTerms = tokenize(parseSearchQuery(query).freeText);
     
     files.forEach((file, index) => {
-      result += `${index + 1}. ${file.path}\\n`;
-      result += `   Relevance: ${(file.relevance * 100).toFixed(0)}%\\n`;
+      result += `${index + 1}. ${file.path}\n`;
+      result += `   Relevance: ${(file.relevance * 100).toFixed(0)}%\n`;
       if (file.summary) {
-        result += `   Summary: ${file.summary}\\n`;
+        result += `   Summary: ${file.summary}\n`;
       }
-      result += `\\n`;
+      for (const passage of file.passages || []) {
+        result += `   Lines ${passage.startLine}-${passage.endLine}: ${excerpt(passage.text, queryTerms)}\n`;
+      }
+      result += `\n`;
     });
 
     return result;
@@ -676,14 +1837,13 @@ class SparkleMCPServer {
     return output;
   }
 
-  private async ensureSparkleFolder() {
+  private async ensureSparkleFolder(root: SparkleRoot) {
     try {
-      const folderName = "~/Sparkle";
-      const sparkleDir = this.expandPath(folderName);
+      const sparkleDir = root.path;
       await fs.mkdir(sparkleDir, { recursive: true });
       
       // Create a welcome file if folder is new
-      const welcomePath = path.join(sparkleDir, "README.txt");
+      const welcomePath = path.join(sparkleDir, WELCOME_FILE);
       try {
         await fs.access(welcomePath);
       } catch {
@@ -707,18 +1867,11 @@ Important:
 Happy organizing!
 `;
         await fs.writeFile(welcomePath, welcomeContent);
-        console.error("Created Sparkle folder at:", sparkleDir);
+        console.error(`Created Sparkle folder "${root.name}" at:`, sparkleDir);
       }
     } catch (error) {
-      console.error("Error creating Sparkle folder:", error);
-    }
-  }
-  
-  private expandPath(folderPath: string): string {
-    if (folderPath.startsWith("~/")) {
-      return path.join(os.homedir(), folderPath.slice(2));
+      console.error(`Error creating Sparkle folder "${root.name}":`, error);
     }
-    return folderPath;
   }
 
   private async loadConfiguration() {
@@ -727,25 +1880,36 @@ Happy organizing!
       console.error("Configuration loaded:", this.config);
     } catch (error) {
       console.error("Failed to load configuration, using defaults");
+      this.config = DEFAULT_CONFIG;
     }
   }
 
   private async handleHealthCheck(args: any) {
     try {
       console.error("health_check: start");
-      const sparkleDir = this.expandPath("~/Sparkle");
-      const stats = await fs.stat(sparkleDir);
+      const defaultRoot = this.getRoot();
+      const stats = await fs.stat(defaultRoot.path);
+      
+      const roots = await Promise.all(this.roots!.list().map(async (root) => ({
+        name: root.name,
+        path: root.path,
+        pasteboard: root.pasteboardPath,
+        exists: await fs.stat(root.path).then(s => s.isDirectory(), () => false),
+        indexedFiles: root.folder.getFileCount(),
+      })));
       
       const health = {
         status: "healthy",
         version: "1.0.0",
         uptime: Math.floor((Date.now() - this.startupTime.getTime()) / 1000),
         sparkleFolder: {
-          path: sparkleDir,
+          name: defaultRoot.name,
+          path: defaultRoot.path,
           exists: stats.isDirectory(),
           writable: true,
         },
-        indexedFiles: this.sparkleFolder.getFileCount(),
+        roots,
+        indexedFiles: defaultRoot.folder.getFileCount(),
         configuration: this.config || "default",
         rateLimiter: {
           remaining: this.rateLimiter.getRemainingRequests('health_check')
@@ -778,23 +1942,28 @@ Happy organizing!
   }
 
   private async handleSearchClipboard(args: any) {
-    const { query, startDate, endDate, type, limit } = SearchClipboardSchema.parse(args);
+    const { query, startDate, endDate, type, limit, root } = SearchClipboardSchema.parse(args);
     
     try {
       console.error("search_clipboard: start");
       
-      const searchOptions: any = { limit };
+      const searchOptions: ClipboardSearchOptions = { limit };
       if (query) searchOptions.query = query;
-      if (startDate) searchOptions.startDate = new Date(startDate);
-      if (endDate) searchOptions.endDate = new Date(endDate);
+      if (startDate) searchOptions.startDate = this.toLocalDay(startDate).from;
+      if (endDate) searchOptions.endDate = new Date(this.toLocalDay(endDate).to.getTime() - 1);
       if (type) searchOptions.type = type;
       
-      const results = await this.clipboardHistory.searchClipboardHistory(searchOptions);
+      const { clipboard } = this.getRoot(root);
+      const resolved = clipboard.resolveSearchOptions(searchOptions);
+      const results = await clipboard.searchClipboardHistory(resolved);
       
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(results, null, 2),
+          text: JSON.stringify({
+            dateRange: resolved.dateRange,
+            results,
+          }, null, 2),
         }],
       };
     } catch (error) {
@@ -809,13 +1978,25 @@ Happy organizing!
     }
   }
 
+  /**
+   * A YYYY-MM-DD argument as that whole day in local time.
+   */
+  private toLocalDay(date: string): { from: Date; to: Date } {
+    const day = parseLocalDay(date);
+    if (!day) {
+      throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+    }
+    return day;
+  }
+
   private async handleGetClipboardByDate(args: any) {
-    const { date } = GetClipboardByDateSchema.parse(args);
+    const { date, root } = GetClipboardByDateSchema.parse(args);
     
     try {
       console.error(`get_clipboard_by_date: ${date}`);
       
-      const result = await this.clipboardHistory.getClipboardByDate(new Date(date));
+      const { clipboard } = this.getRoot(root);
+      const result = await clipboard.getClipboardByDate(this.toLocalDay(date).from);
       
       return {
         content: [{
@@ -836,12 +2017,13 @@ Happy organizing!
   }
 
   private async handleGetRecentClipboard(args: any) {
-    const { days, limit } = GetRecentClipboardSchema.parse(args);
+    const { days, limit, root } = GetRecentClipboardSchema.parse(args);
     
     try {
       console.error(`get_recent_clipboard: ${days} days`);
       
-      const results = await this.clipboardHistory.getRecentClipboard(days, limit);
+      const { clipboard } = this.getRoot(root);
+      const results = await clipboard.getRecentClipboard(days, limit);
       
       return {
         content: [{
@@ -862,10 +2044,13 @@ Happy organizing!
   }
 
   private async handleClipboardStats(args: any) {
+    const { root } = ClipboardStatsSchema.parse(args);
+    
     try {
       console.error("clipboard_stats: start");
       
-      const stats = await this.clipboardHistory.getClipboardStats();
+      const { clipboard } = this.getRoot(root);
+      const stats = await clipboard.getClipboardStats();
       
       return {
         content: [{
@@ -886,14 +2071,17 @@ Happy organizing!
   }
 
   async run() {
+    await this.initialize();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error("Sparkle MCP Server running...");
-    console.error("Sparkle folder:", this.expandPath("~/Sparkle"));
+    for (const root of this.roots!.list()) {
+      console.error(`Sparkle folder "${root.name}":`, root.path);
+    }
   }
 
-  getSparkleFolder() {
-    return this.sparkleFolder;
+  async cleanup() {
+    await this.roots?.cleanup();
   }
 }
 
@@ -903,13 +2091,13 @@ const server = new SparkleMCPServer();
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   console.error('Received SIGTERM, shutting down gracefully...');
-  await server.getSparkleFolder()?.cleanup();
+  await server.cleanup();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.error('Received SIGINT, shutting down gracefully...');
-  await server.getSparkleFolder()?.cleanup();
+  await server.cleanup();
   process.exit(0);
 });
 
@@ -0,0 +1,40 @@
+import * as path from "path";
+
+// Hidden directories the server keeps inside each Sparkle root
+export const TRASH_DIRECTORY = ".sparkle-trash";
+export const VERSIONS_DIRECTORY = ".sparkle-versions";
+export const INDEX_DIRECTORY = ".sparkle-index";
+
+export const INTERNAL_DIRECTORIES = [TRASH_DIRECTORY, VERSIONS_DIRECTORY, INDEX_DIRECTORY];
+
+// Reason given when a client tries to change a server path
+export const SERVER_PATH_DENIED = "is managed by the Sparkle server";
+
+// Server settings, read from the default root at startup
+export const CONFIG_FILE = ".mcp-config.json";
+
+// Welcome file the server creates in a new root
+export const WELCOME_FILE = "README.txt";
+
+// Prefix for the temp files atomic writes rename into place
+export const TEMP_FILE_PREFIX = ".sparkle-tmp-";
+
+/**
+ * Whether a path relative to a Sparkle root points into one of the
+ * server's own directories or is an in-flight temp file. Those are never
+ * indexed, watched or listed.
+ */
+export const isInternalPath = (relativePath: string): boolean => {
+  const [first] = path.normalize(relativePath).split(path.sep);
+  return INTERNAL_DIRECTORIES.includes(first) ||
+    path.basename(relativePath).startsWith(TEMP_FILE_PREFIX);
+};
+
+/**
+ * Whether a path relative to a Sparkle root belongs to the server: its
+ * internal directories or the config file. Clients may not write, move or
+ * create these; only the server's own bookkeeping does.
+ */
+export const isServerPath = (relativePath: string): boolean => {
+  return isInternalPath(relativePath) || path.normalize(relativePath) === CONFIG_FILE;
+};
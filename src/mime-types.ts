@@ -0,0 +1,109 @@
+import * as path from "path";
+
+const MIME_TYPES: { [ext: string]: string } = {
+  // Text
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".log": "text/plain",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".js": "text/javascript",
+  ".ts": "text/x-typescript",
+  ".py": "text/x-python",
+  ".rtf": "application/rtf",
+  ".ini": "text/plain",
+  ".conf": "text/plain",
+  ".cfg": "text/plain",
+
+  // Documents
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+
+  // Images
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".ico": "image/x-icon",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".heic": "image/heic",
+
+  // Audio / video
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".avi": "video/x-msvideo",
+
+  // Archives
+  ".zip": "application/zip",
+  ".tar": "application/x-tar",
+  ".gz": "application/gzip",
+  ".7z": "application/x-7z-compressed",
+  ".rar": "application/vnd.rar",
+};
+
+// Non text/* types that are still safe to return as text
+const TEXTUAL_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/rtf",
+  "image/svg+xml",
+]);
+
+// Image formats clients can render from an MCP `image` content block
+const INLINE_IMAGE_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+/**
+ * Best-effort MIME type from the file extension.
+ */
+export const getMimeType = (filePath: string): string => {
+  const ext = path.extname(filePath).toLowerCase();
+  return MIME_TYPES[ext] || "application/octet-stream";
+};
+
+/**
+ * Whether content of this MIME type should be returned as text rather than base64.
+ */
+export const isTextMimeType = (mimeType: string): boolean => {
+  return mimeType.startsWith("text/") || TEXTUAL_TYPES.has(mimeType);
+};
+
+/**
+ * Whether this MIME type can be returned as an MCP image content block.
+ */
+export const isInlineImageMimeType = (mimeType: string): boolean => {
+  return INLINE_IMAGE_TYPES.has(mimeType);
+};
+
+/**
+ * Heuristic for files without a known extension: no NUL bytes in the first 8KB.
+ */
+export const looksLikeText = (buffer: Buffer): boolean => {
+  const sample = buffer.subarray(0, 8192);
+  return !sample.includes(0);
+};
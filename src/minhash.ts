@@ -0,0 +1,113 @@
+// Signature length; the similarity estimate is off by about 0.05 at 0.8
+export const SIGNATURE_SIZE = 64;
+
+// Words per shingle: long enough that shared shingles mean shared passages
+const SHINGLE_WORDS = 4;
+
+// Fewer shingles than this and a few edits change the estimate too much
+const MIN_SHINGLES = 10;
+
+// Only the start of very long documents is compared
+const MAX_WORDS = 100_000;
+
+// Locality-sensitive hashing: signatures sharing all rows of any band become
+// candidates. 16 bands of 4 rows find pairs at 0.8 similarity 99.9% of the time.
+const BANDS = 16;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BANDS;
+
+/**
+ * MurmurHash3's finalizer: a cheap, well-spread 32-bit mix.
+ */
+const mix32 = (value: number): number => {
+  let h = value >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// One hash function per signature slot: the shingle hash mixed with a seed
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(0x9e3779b9 ^ Math.imul(i + 1, 0x85ebca6b)));
+
+/**
+ * FNV-1a over the UTF-16 code units of a string.
+ */
+const hashString = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * MinHash signature of a text's word shingles, or undefined for texts too
+ * short to compare. Case and punctuation are ignored, so reformatted copies
+ * still match.
+ */
+export const minHashSignature = (text: string): number[] | undefined => {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_WORDS);
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_WORDS).join(" ")));
+  }
+  if (shingles.size < MIN_SHINGLES) return undefined;
+
+  const signature = new Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+};
+
+/**
+ * Estimated Jaccard similarity of the two texts' shingle sets.
+ */
+export const signatureSimilarity = (a: number[], b: number[]): number => {
+  let same = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / SIGNATURE_SIZE;
+};
+
+/**
+ * Pairs of keys whose signatures are at least `threshold` similar, found
+ * through LSH buckets instead of comparing every pair.
+ */
+export const similarPairs = (
+  signatures: Map<string, number[]>,
+  threshold: number
+): { a: string; b: string; similarity: number }[] => {
+  const buckets = new Map<string, string[]>();
+  for (const [key, signature] of signatures) {
+    for (let band = 0; band < BANDS; band++) {
+      const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+      const bucketKey = `${band}:${rows.join(",")}`;
+      const bucket = buckets.get(bucketKey);
+      if (bucket) bucket.push(key);
+      else buckets.set(bucketKey, [key]);
+    }
+  }
+
+  const pairs: { a: string; b: string; similarity: number }[] = [];
+  const seen = new Set<string>();
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = bucket[i] < bucket[j] ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+        const pairKey = `${a}\0${b}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const similarity = signatureSimilarity(signatures.get(a)!, signatures.get(b)!);
+        if (similarity >= threshold) {
+          pairs.push({ a, b, similarity });
+        }
+      }
+    }
+  }
+  return pairs;
+};
@@ -0,0 +1,101 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { readExif } from "./exif.js";
+import { SparkleFolder } from "./sparkle-folder.js";
+
+export type TemplateValues = Record<string, string | undefined>;
+
+// Characters that are not allowed, or are awkward, in file names on common systems
+const UNSAFE_NAME_CHARACTERS = /[\\/:*?"<>|\x00-\x1f]+/g;
+
+// Longest name a template produces, before the extension
+const MAX_NAME_LENGTH = 100;
+
+// Placeholders filled from the capture or modification time
+const DATE_PLACEHOLDERS = ["taken", "date", "time", "yyyy", "mm", "dd"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Placeholder names used in a template, e.g. ["date", "title"] for "{date} {title}".
+ */
+export const templatePlaceholders = (template: string): string[] => {
+  return [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+};
+
+/**
+ * Date placeholders in local time: {date} 2024-03-05, {time} 14.22.10,
+ * {yyyy}, {mm}, {dd}.
+ */
+export const dateValues = (date: Date): TemplateValues => ({
+  date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+  time: `${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`,
+  yyyy: String(date.getFullYear()),
+  mm: pad(date.getMonth() + 1),
+  dd: pad(date.getDate()),
+});
+
+/**
+ * Make a value usable as (part of) a file name: no path separators or
+ * reserved characters, single spaces, no leading or trailing dots.
+ */
+export const sanitizeName = (value: string): string => {
+  return value
+    .replace(UNSAFE_NAME_CHARACTERS, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(/^[.\s]+|[.\s]+$/g, "");
+};
+
+/**
+ * Fill in a template's {placeholders}. Each value is sanitized as a name, so
+ * it cannot add path segments of its own. Undefined when a placeholder has
+ * no value or the result is empty.
+ */
+export const renderTemplate = (template: string, values: TemplateValues): string | undefined => {
+  let missing = false;
+  const rendered = template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = values[key] !== undefined ? sanitizeName(values[key]!) : "";
+    if (!value) missing = true;
+    return value;
+  });
+  return missing || !rendered.trim() ? undefined : rendered;
+};
+
+/**
+ * Placeholder values for a file: {name} and {ext} (without the dot),
+ * {type}, {title} and {heading} from the cached summary, {taken} from EXIF,
+ * and the date placeholders from the EXIF capture time or else the last
+ * modification. Metadata is only read for the placeholders in `used`.
+ */
+export const fileTemplateValues = async (
+  folder: SparkleFolder,
+  fullPath: string,
+  type: string,
+  used: string[]
+): Promise<TemplateValues> => {
+  const ext = path.extname(fullPath);
+  const values: TemplateValues = {
+    name: path.basename(fullPath, ext),
+    ext: ext.slice(1).toLowerCase() || undefined,
+    type,
+  };
+
+  if (used.includes("title") || used.includes("heading")) {
+    const summary = await folder.getSummary(fullPath, await fs.stat(fullPath));
+    values.title = summary?.title;
+    values.heading = summary?.title ?? summary?.headings[0];
+  }
+
+  if (DATE_PLACEHOLDERS.some(key => used.includes(key))) {
+    const { taken } = await readExif(fullPath);
+    const { mtime } = await fs.stat(fullPath);
+    Object.assign(values, dateValues(taken ?? mtime));
+    if (taken) {
+      const parts = dateValues(taken);
+      values.taken = `${parts.date} ${parts.time}`;
+    }
+  }
+  return values;
+};
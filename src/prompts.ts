@@ -0,0 +1,211 @@
+import * as path from "path";
+import { RootRegistry } from "./roots.js";
+import { SparkleResources, toResourceUri } from "./resources.js";
+import { parseLocalDay } from "./query-parser.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+interface PromptMessage {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "resource"; resource: { uri: string; mimeType: string; text?: string; blob?: string } };
+}
+
+const ROOT_ARGUMENT: PromptArgument = {
+  name: "root",
+  description: "Named Sparkle root to use; defaults to the primary root",
+};
+
+const MAX_CLIPBOARD_ENTRIES = 100;
+const MAX_ENTRY_LENGTH = 500;
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "summarize_clipboard",
+    description: "Summarize what I copied on a given day (today by default)",
+    arguments: [
+      { name: "date", description: "Day to summarize (YYYY-MM-DD); defaults to today" },
+      ROOT_ARGUMENT,
+    ],
+  },
+  {
+    name: "triage_inbox",
+    description: "Triage recent arrivals in my Sparkle folder and suggest what to do with each",
+    arguments: [
+      { name: "focus", description: "Optional topic to prioritise, e.g. \"receipts\" or \"project x\"" },
+      { name: "days", description: "How many days back counts as recent (default 7)" },
+      ROOT_ARGUMENT,
+    ],
+  },
+  {
+    name: "explain_file",
+    description: "Explain what a file in my Sparkle folder contains and why it might matter",
+    arguments: [
+      { name: "path", description: "File path relative to the Sparkle folder", required: true },
+      ROOT_ARGUMENT,
+    ],
+  },
+];
+
+/**
+ * Parameterized prompt templates built from the same data the tools use.
+ */
+export class SparklePrompts {
+  private roots: RootRegistry;
+  private resources: SparkleResources;
+
+  constructor(roots: RootRegistry, resources: SparkleResources) {
+    this.roots = roots;
+    this.resources = resources;
+  }
+
+  public listPrompts() {
+    return { prompts: PROMPTS };
+  }
+
+  public async getPrompt(name: string, args: Record<string, string> = {}) {
+    const definition = PROMPTS.find(prompt => prompt.name === name);
+    if (!definition) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    for (const argument of definition.arguments) {
+      if (argument.required && !args[argument.name]) {
+        throw new Error(`Missing required argument "${argument.name}" for prompt ${name}`);
+      }
+    }
+
+    switch (name) {
+      case "summarize_clipboard":
+        return this.summarizeClipboard(args);
+      case "triage_inbox":
+        return this.triageInbox(args);
+      case "explain_file":
+        return this.explainFile(args);
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private async summarizeClipboard(args: Record<string, string>) {
+    const { clipboard } = this.roots.get(args.root);
+    const requested = args.date ? parseLocalDay(args.date) : null;
+    if (args.date && !requested) {
+      throw new Error(`Invalid date "${args.date}", expected YYYY-MM-DD`);
+    }
+
+    const day = await clipboard.getClipboardByDate(requested?.from ?? new Date());
+    const entries = day.entries.slice(0, MAX_CLIPBOARD_ENTRIES).map(entry => {
+      const content = entry.content.length > MAX_ENTRY_LENGTH
+        ? entry.content.slice(0, MAX_ENTRY_LENGTH) + "…"
+        : entry.content;
+      const app = entry.metadata?.app ? ` from ${entry.metadata.app}` : "";
+      return `- [${entry.timestamp.toISOString()}] (${entry.type}${app}) ${content}`;
+    });
+
+    let text = `Summarize what I copied to my clipboard on ${day.date}. ` +
+      `Group related items, call out links, code and anything that looks like a to-do, ` +
+      `and keep it short.\n\n`;
+    if (entries.length === 0) {
+      text += "There are no clipboard entries for that day.";
+    } else {
+      text += `Clipboard entries (${day.totalCount} total` +
+        (day.totalCount > entries.length ? `, showing the ${entries.length} most recent` : "") +
+        `):\n${entries.join("\n")}`;
+    }
+
+    return {
+      description: `Clipboard summary for ${day.date}`,
+      messages: [this.userText(text)],
+    };
+  }
+
+  private async triageInbox(args: Record<string, string>) {
+    const root = this.roots.get(args.root);
+    const days = args.days ? parseInt(args.days, 10) : 7;
+    if (isNaN(days) || days <= 0) {
+      throw new Error(`Invalid number of days: ${args.days}`);
+    }
+
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    const recent = (await root.folder.listFiles())
+      .filter(file => file.modified.getTime() >= cutoff)
+      .sort((a, b) => b.modified.getTime() - a.modified.getTime())
+      .slice(0, 50);
+
+    const relevant = args.focus
+      ? (await root.folder.findRelevant(args.focus, 10)).filter(result => result.relevance > 0)
+      : [];
+
+    const describe = (filePath: string, detail?: string) => {
+      const relativePath = path.relative(root.path, filePath);
+      return `- ${relativePath}${detail ? ` — ${detail}` : ""}`;
+    };
+
+    let text = `Help me triage my Sparkle inbox. For each file below, suggest one action: ` +
+      `keep where it is, move it into a better folder (name the folder), rename it, or delete it. ` +
+      `Point out duplicates and anything that needs my attention first.\n\n`;
+
+    const { state, run } = root.folder.getIndexStatus();
+    if (state !== "ready") {
+      const progress = run && run.total > 0 ? ` (${run.processed} of ${run.total} files done)` : "";
+      text += `The folder is still being indexed${progress}, so these lists may be incomplete.\n\n`;
+    }
+
+    text += `Files added or changed in the last ${days} day(s):\n`;
+    text += recent.length > 0
+      ? recent.map(file => describe(file.path, `${file.type}, ${file.size} bytes, modified ${file.modified.toISOString()}`)).join("\n")
+      : "(none)";
+
+    if (args.focus) {
+      text += `\n\nFiles most relevant to "${args.focus}":\n`;
+      text += relevant.length > 0
+        ? relevant.map(result => describe(result.path, result.summary)).join("\n")
+        : "(none)";
+    }
+
+    return {
+      description: `Inbox triage for the "${root.name}" Sparkle folder`,
+      messages: [this.userText(text)],
+    };
+  }
+
+  private async explainFile(args: Record<string, string>) {
+    const root = this.roots.get(args.root);
+    const fullPath = await root.sandbox.resolve(args.path);
+    const relativePath = root.sandbox.relative(fullPath);
+    const uri = toResourceUri(root.name, relativePath);
+    const { contents } = await this.resources.readResource(uri);
+
+    const messages: PromptMessage[] = [
+      {
+        role: "user",
+        content: { type: "resource", resource: contents[0] },
+      },
+      this.userText(
+        `Explain what ${relativePath} is: summarize its contents, note anything important ` +
+        `(dates, amounts, people, action items), and suggest where it belongs in my Sparkle folder.`
+      ),
+    ];
+
+    return {
+      description: `Explain ${relativePath}`,
+      messages,
+    };
+  }
+
+  private userText(text: string): PromptMessage {
+    return { role: "user", content: { type: "text", text } };
+  }
+}
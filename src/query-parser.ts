@@ -0,0 +1,392 @@
+import * as path from "path";
+import { extractDateRange } from "./date-ranges.js";
+
+export interface DateRange {
+  from?: Date; // Inclusive
+  to?: Date;   // Exclusive
+}
+
+export interface SizeRange {
+  min?: number; // Bytes, inclusive
+  max?: number; // Bytes, inclusive
+}
+
+/**
+ * A search query split into free text and filters.
+ *
+ *   type:pdf  ext:md  in:Projects/2024  size:>5MB  modified:>2024-03-01
+ *   name:"tax return"  "exact phrase"  -exclude  -in:Archive  -type:image
+ *
+ * Several ext:/type: or in: filters mean "any of these"; name: filters and
+ * phrases must all match. A leading "-" negates a word, phrase, ext:, type: or in:.
+ * A date expression in the free text ("from last week") becomes `dates`.
+ */
+export interface ParsedQuery {
+  freeText: string;             // Words and phrases outside operators, quotes removed
+  phrases: string[];            // Quoted phrases; must appear in the path or content
+  excludedText: string[];       // -word / -"phrase"; must not appear
+  extensions: string[];         // From ext: and type:, with a leading dot
+  excludedExtensions: string[];
+  folders: string[];            // From in:, relative to the root
+  excludedFolders: string[];
+  names: string[];              // From name:, matched against the file name
+  size?: SizeRange;
+  modified?: DateRange;
+  dates?: DateRange & { phrase: string }; // From the free text; matches modified or created time
+  warnings: string[];           // Operators that could not be understood
+}
+
+export interface QueryCandidate {
+  relativePath: string;
+  size: number;
+  modified: Date;
+  created?: Date;
+}
+
+interface QueryToken {
+  negated: boolean;
+  operator?: string;
+  value: string;
+  quoted: boolean;
+}
+
+const TYPE_EXTENSIONS: Record<string, string[]> = {
+  pdf: [".pdf"],
+  document: [".pdf", ".doc", ".docx", ".odt", ".rtf", ".pages"],
+  text: [".txt", ".md", ".markdown", ".rst", ".log"],
+  image: [".jpg", ".jpeg", ".png", ".gif", ".webp", ".heic", ".bmp", ".tiff", ".svg"],
+  audio: [".mp3", ".wav", ".m4a", ".aac", ".flac", ".ogg"],
+  video: [".mp4", ".mov", ".avi", ".mkv", ".webm"],
+  spreadsheet: [".xlsx", ".xls", ".csv", ".numbers", ".ods"],
+  presentation: [".pptx", ".ppt", ".key", ".odp"],
+  data: [".json", ".csv", ".xml", ".yaml", ".yml"],
+  code: [".js", ".ts", ".py", ".rb", ".go", ".rs", ".java", ".sh"],
+  archive: [".zip", ".tar", ".gz", ".7z", ".rar"],
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  photo: "image",
+  picture: "image",
+  doc: "document",
+  sheet: "spreadsheet",
+  slide: "presentation",
+  music: "audio",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+/**
+ * Split a query into tokens, keeping quoted strings (also after an
+ * operator, as in name:"tax return") together.
+ */
+const tokenizeQuery = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  const pattern = /(-)?(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const [, negated, operator, quoted, bare] = match;
+    tokens.push({
+      negated: !!negated,
+      operator: operator?.toLowerCase(),
+      value: quoted ?? bare ?? "",
+      quoted: quoted !== undefined,
+    });
+  }
+  return tokens;
+};
+
+const parseSize = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || "b"]);
+};
+
+const parseSizeRange = (value: string): SizeRange | null => {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const min = range[0] ? parseSize(range[0]) : undefined;
+    const max = range[1] ? parseSize(range[1]) : undefined;
+    return min === null || max === null ? null : { min, max };
+  }
+
+  const match = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (!match) return null;
+  const bytes = parseSize(match[2]);
+  if (bytes === null) return null;
+
+  switch (match[1]) {
+    case ">": return { min: bytes + 1 };
+    case ">=": return { min: bytes };
+    case "<": return { max: Math.max(0, bytes - 1) };
+    default: return { max: bytes };
+  }
+};
+
+/**
+ * A calendar date as the local-time period it covers: YYYY, YYYY-MM or YYYY-MM-DD.
+ */
+export const parseDatePeriod = (value: string): Required<DateRange> | null => {
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) - 1 : undefined;
+  const day = match[3] ? parseInt(match[3], 10) : undefined;
+  if (month !== undefined && (month < 0 || month > 11)) return null;
+
+  if (month === undefined) {
+    return { from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) };
+  }
+  if (day === undefined) {
+    return { from: new Date(year, month, 1), to: new Date(year, month + 1, 1) };
+  }
+
+  const from = new Date(year, month, day);
+  if (from.getMonth() !== month) return null; // e.g. 2024-02-31
+  return { from, to: new Date(year, month, day + 1) };
+};
+
+/**
+ * A YYYY-MM-DD date as that whole day in local time; null for anything else.
+ */
+export const parseLocalDay = (value: string): Required<DateRange> | null => {
+  return /^\s*\d{4}-\d{1,2}-\d{1,2}\s*$/.test(value) ? parseDatePeriod(value) : null;
+};
+
+const parseDateRange = (value: string): DateRange | null => {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const start = range[0] ? parseDatePeriod(range[0]) : undefined;
+    const end = range[1] ? parseDatePeriod(range[1]) : undefined;
+    if (start === null || end === null) return null;
+    return { from: start?.from, to: end?.to };
+  }
+
+  const match = value.match(/^(>=|<=|>|<)?(.+)$/);
+  const period = match ? parseDatePeriod(match[2]) : null;
+  if (!match || !period) {
+    // modified:yesterday, modified:"last week"
+    const natural = extractDateRange(value.replace(/_/g, " "));
+    return natural && !natural.remaining ? natural.range : null;
+  }
+
+  switch (match[1]) {
+    case ">": return { from: period.to };
+    case ">=": return { from: period.from };
+    case "<": return { to: period.from };
+    case "<=": return { to: period.to };
+    default: return period;
+  }
+};
+
+const normalizeFolder = (folder: string): string => {
+  return folder.replace(/\\/g, "/").replace(/^\.?\/+|\/+$/g, "").toLowerCase();
+};
+
+const toExtensions = (operator: "ext" | "type", value: string): string[] => {
+  return value.split(",").filter(Boolean).flatMap(item => {
+    const name = item.toLowerCase().replace(/^\./, "");
+    if (operator === "ext") return [`.${name}`];
+
+    const singular = name.endsWith("s") ? name.slice(0, -1) : name;
+    const type = TYPE_EXTENSIONS[name] ? name : TYPE_ALIASES[name] || TYPE_ALIASES[singular] || singular;
+    // Unknown types are read as an extension, so type:heic works too
+    return TYPE_EXTENSIONS[type] || [`.${name}`];
+  });
+};
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = {
+    freeText: "",
+    phrases: [],
+    excludedText: [],
+    extensions: [],
+    excludedExtensions: [],
+    folders: [],
+    excludedFolders: [],
+    names: [],
+    warnings: [],
+  };
+  const plainWords: string[] = [];
+
+  for (const token of tokenizeQuery(query)) {
+    const { negated, operator, value, quoted } = token;
+    if ((!value || value === "-") && !quoted) continue;
+
+    switch (operator) {
+      case "ext":
+      case "type":
+        (negated ? parsed.excludedExtensions : parsed.extensions).push(...toExtensions(operator, value));
+        break;
+      case "in":
+        (negated ? parsed.excludedFolders : parsed.folders).push(normalizeFolder(value));
+        break;
+      case "name":
+        parsed.names.push(value.toLowerCase());
+        break;
+      case "size": {
+        const size = parseSizeRange(value);
+        if (size) {
+          parsed.size = { ...parsed.size, ...size };
+        } else {
+          parsed.warnings.push(`Could not read size:${value}; use e.g. size:>5MB, size:<100KB or size:1MB..10MB`);
+        }
+        break;
+      }
+      case "modified": {
+        const range = parseDateRange(value);
+        if (range) {
+          parsed.modified = { ...parsed.modified, ...range };
+        } else {
+          parsed.warnings.push(`Could not read modified:${value}; use e.g. modified:>2024-03-01 or modified:2024-01..2024-06`);
+        }
+        break;
+      }
+      default: {
+        // Unknown operators (e.g. "re:" in a subject line) are plain text
+        const text = operator ? `${operator}:${value}` : value;
+        if (negated) {
+          parsed.excludedText.push(text.toLowerCase());
+        } else if (quoted) {
+          parsed.phrases.push(text.toLowerCase());
+        } else {
+          plainWords.push(text);
+        }
+      }
+    }
+  }
+
+  // Dates are only looked for outside quotes, so "last week" in a phrase stays text
+  let plainText = plainWords.join(" ");
+  const extracted = extractDateRange(plainText);
+  if (extracted) {
+    parsed.dates = { ...extracted.range, phrase: extracted.phrase };
+    plainText = extracted.remaining;
+  }
+
+  parsed.freeText = [plainText, ...parsed.phrases].filter(Boolean).join(" ");
+  return parsed;
+};
+
+/**
+ * Whether a file passes every filter that can be checked without reading it.
+ * Phrases and excluded text are checked separately with matchesQueryText.
+ */
+export const matchesQueryFilters = (file: QueryCandidate, parsed: ParsedQuery): boolean => {
+  const relativePath = normalizeFolder(file.relativePath);
+  const name = path.basename(relativePath);
+  const ext = path.extname(name);
+  const inFolder = (folder: string) => folder === "" || relativePath.startsWith(folder + "/");
+
+  if (parsed.extensions.length > 0 && !parsed.extensions.includes(ext)) return false;
+  if (parsed.excludedExtensions.includes(ext)) return false;
+  if (parsed.folders.length > 0 && !parsed.folders.some(inFolder)) return false;
+  if (parsed.excludedFolders.some(inFolder)) return false;
+  if (!parsed.names.every(part => name.includes(part))) return false;
+
+  if (parsed.size?.min !== undefined && file.size < parsed.size.min) return false;
+  if (parsed.size?.max !== undefined && file.size > parsed.size.max) return false;
+
+  if (parsed.modified && !inDateRange(file.modified, parsed.modified)) return false;
+  if (parsed.dates && !inDateRange(file.modified, parsed.dates) &&
+      !(file.created && inDateRange(file.created, parsed.dates))) {
+    return false;
+  }
+
+  return true;
+};
+
+const inDateRange = (date: Date, range: DateRange): boolean => {
+  const time = date.getTime();
+  if (range.from && time < range.from.getTime()) return false;
+  if (range.to && time >= range.to.getTime()) return false;
+  return true;
+};
+
+/**
+ * Check phrases and excluded text against a file's path plus whatever
+ * content is available.
+ */
+export const matchesQueryText = (relativePath: string, content: string, parsed: ParsedQuery): boolean => {
+  const haystack = `${relativePath}\n${content}`.toLowerCase();
+  return parsed.phrases.every(phrase => haystack.includes(phrase)) &&
+    !parsed.excludedText.some(text => haystack.includes(text));
+};
+
+export const hasQueryFilters = (parsed: ParsedQuery): boolean => {
+  return parsed.extensions.length > 0 || parsed.excludedExtensions.length > 0 ||
+    parsed.folders.length > 0 || parsed.excludedFolders.length > 0 ||
+    parsed.names.length > 0 || !!parsed.size || !!parsed.modified || !!parsed.dates;
+};
+
+const formatBytes = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Number.isInteger(value) ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+// Local date and time, as the user would write it
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return date.getHours() || date.getMinutes()
+    ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : day;
+};
+
+/**
+ * A range in local time, with whole days shown inclusively ("2024-03-04 to 2024-03-10").
+ */
+export const describeDateRange = (range: DateRange): string => {
+  if (range.from && range.to) {
+    const atMidnight = range.to.getHours() === 0 && range.to.getMinutes() === 0;
+    const end = atMidnight
+      ? formatDate(new Date(range.to.getFullYear(), range.to.getMonth(), range.to.getDate() - 1))
+      : formatDate(range.to);
+    const start = formatDate(range.from);
+    return start === end ? `on ${start}` : `${start} to ${end}`;
+  }
+  if (range.from) return `on or after ${formatDate(range.from)}`;
+  return `before ${formatDate(range.to!)}`;
+};
+
+/**
+ * One line saying how a query was read, echoed back with search results.
+ */
+export const describeQuery = (parsed: ParsedQuery): string => {
+  const parts: string[] = [];
+  if (parsed.freeText) parts.push(`text "${parsed.freeText}"`);
+  if (parsed.phrases.length > 0) parts.push(`phrases ${parsed.phrases.map(p => `"${p}"`).join(", ")}`);
+  if (parsed.excludedText.length > 0) parts.push(`without ${parsed.excludedText.map(t => `"${t}"`).join(", ")}`);
+  if (parsed.extensions.length > 0) parts.push(`extension ${parsed.extensions.join("|")}`);
+  if (parsed.excludedExtensions.length > 0) parts.push(`not extension ${parsed.excludedExtensions.join("|")}`);
+  if (parsed.folders.length > 0) parts.push(`in ${parsed.folders.map(f => f || "/").join("|")}`);
+  if (parsed.excludedFolders.length > 0) parts.push(`not in ${parsed.excludedFolders.join("|")}`);
+  if (parsed.names.length > 0) parts.push(`name contains ${parsed.names.map(n => `"${n}"`).join(", ")}`);
+  if (parsed.size) {
+    const { min, max } = parsed.size;
+    if (min !== undefined && max !== undefined) parts.push(`size ${formatBytes(min)} to ${formatBytes(max)}`);
+    else if (min !== undefined) parts.push(`size at least ${formatBytes(min)}`);
+    else if (max !== undefined) parts.push(`size at most ${formatBytes(max)}`);
+  }
+  if (parsed.modified) parts.push(`modified ${describeDateRange(parsed.modified)}`);
+  if (parsed.dates) parts.push(`saved or modified ${describeDateRange(parsed.dates)} ("${parsed.dates.phrase}")`);
+
+  let description = parts.length > 0 ? parts.join("; ") : "everything";
+  if (parsed.warnings.length > 0) {
+    description += ` (${parsed.warnings.join("; ")})`;
+  }
+  return description;
+};
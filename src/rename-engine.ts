@@ -0,0 +1,240 @@
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { SparkleSandbox } from "./sandbox.js";
+import { SparkleFolder } from "./sparkle-folder.js";
+import { VersionHistory } from "./version-history.js";
+import { fileTemplateValues, renderTemplate, templatePlaceholders } from "./name-template.js";
+import { moveFile, uniquePath } from "./file-moves.js";
+import { INDEX_DIRECTORY } from "./internal-paths.js";
+
+export interface RenameRule {
+  pattern?: string;   // Regular expression tested against the name without extension, ignoring case
+  type?: string;      // File type as reported by list_directory: image, document, audio, ...
+  template: string;   // New name without extension; a rule whose placeholders have no value is skipped
+}
+
+export interface RenameConfig {
+  enabled: boolean;   // Rename files by the rules as they arrive; suggest_renames works either way
+  rules: RenameRule[];
+}
+
+export interface RenameSuggestion {
+  from: string;       // Relative to the root
+  to: string;
+  rule: string;       // Template of the rule that produced the name
+}
+
+export interface RenameBatch {
+  id: string;
+  appliedAt: string;  // ISO timestamp
+  automatic: boolean; // Renamed by the watcher on arrival rather than by apply_renames
+  renames: { from: string; to: string }[];
+}
+
+export interface RenameResult {
+  batch?: RenameBatch; // Undefined when nothing was renamed
+  skipped: { from: string; to: string; reason: string }[];
+}
+
+// Replaces the generic names cameras, recorders and editors give new files
+export const DEFAULT_RENAME_RULES: RenameRule[] = [
+  { pattern: "^(IMG|DSC|DSCN|DSCF|PXL)[_-]?\\d+", type: "image", template: "Photo {taken}" },
+  { pattern: "^Screenshot(?!.*\\d{4}-?\\d{2}-?\\d{2})", type: "image", template: "Screenshot {date} {time}" },
+  { pattern: "^(audio_recording|REC)[\\s_-]?\\d*$", template: "Recording {date} {time}" },
+  { pattern: "^untitled", template: "{heading}" },
+];
+
+const LOG_FILE = path.join(INDEX_DIRECTORY, "renames.json");
+const LOG_FORMAT_VERSION = 1;
+
+// Oldest batches are dropped from the undo log past this many
+const MAX_LOGGED_BATCHES = 100;
+
+/**
+ * Renames files with generic names ("IMG_1234.jpg", "untitled.md") by
+ * configurable rules. Each rule matches on the name, the file type and, via
+ * its template, on the metadata it needs:
+ *
+ *   {title}    document title (front matter or top-level heading)
+ *   {heading}  the title, else the first heading
+ *   {taken}    capture date and time from the photo's EXIF data
+ *   {date} {time} {yyyy} {mm} {dd}  EXIF capture time, else last modified
+ *   {name} {ext} {type}  current name without extension, extension, file type
+ *
+ * The first rule that matches and has values for all its placeholders wins;
+ * the extension is kept. Applied renames are logged in
+ * `.sparkle-index/renames.json` so a batch can be undone.
+ */
+export class RenameEngine {
+  private sandbox: SparkleSandbox;
+  private folder: SparkleFolder;
+  private versions: VersionHistory;
+  private config: RenameConfig;
+  private rules: { rule: RenameRule; pattern?: RegExp }[];
+  private queue: Promise<unknown> = Promise.resolve();
+  private renamedTo: Set<string> = new Set(); // Arrivals caused by our own renames
+
+  constructor(sandbox: SparkleSandbox, folder: SparkleFolder, versions: VersionHistory, config: RenameConfig) {
+    this.sandbox = sandbox;
+    this.folder = folder;
+    this.versions = versions;
+    this.config = config;
+    this.rules = [];
+    for (const rule of config.rules) {
+      try {
+        this.rules.push({ rule, pattern: rule.pattern ? new RegExp(rule.pattern, "i") : undefined });
+      } catch (error) {
+        console.error(`Ignoring rename rule with invalid pattern "${rule.pattern}":`, error);
+      }
+    }
+  }
+
+  public isAutomatic(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Suggested new names for the indexed files under `scope` (relative to
+   * the root; "" for all). Nothing is renamed.
+   */
+  public async suggest(scope: string = ""): Promise<RenameSuggestion[]> {
+    const files = (await this.folder.listFiles())
+      .filter(file => {
+        const relativePath = this.sandbox.relative(file.path);
+        return !scope || relativePath === scope || relativePath.startsWith(scope + path.sep);
+      });
+
+    const suggestions: RenameSuggestion[] = [];
+    const claimed = new Set<string>();
+    for (const file of files) {
+      const suggestion = await this.suggestFor(file.path, file.type, claimed);
+      if (suggestion) suggestions.push(suggestion);
+    }
+    return suggestions;
+  }
+
+  /**
+   * Rename files, skipping any whose source is gone or whose target exists,
+   * and log the batch for undo.
+   */
+  public apply(renames: { from: string; to: string }[], automatic: boolean = false): Promise<RenameResult> {
+    return this.serialize(async () => {
+      const done: { from: string; to: string }[] = [];
+      const skipped: RenameResult["skipped"] = [];
+      for (const { from, to } of renames) {
+        const reason = await this.move(from, to);
+        if (reason) skipped.push({ from, to, reason });
+        else done.push({ from, to });
+      }
+      if (done.length === 0) return { skipped };
+
+      const batch: RenameBatch = {
+        id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+        appliedAt: new Date().toISOString(),
+        automatic,
+        renames: done,
+      };
+      const batches = await this.readLog();
+      batches.push(batch);
+      await this.writeLog(batches.slice(-MAX_LOGGED_BATCHES));
+      return { batch, skipped };
+    });
+  }
+
+  /**
+   * Rename a file the watcher just reported, if a rule applies. Does
+   * nothing unless automatic renaming is enabled. Returns whether the file
+   * was renamed (it then arrives again under its new name).
+   */
+  public async renameNewFile(filePath: string): Promise<boolean> {
+    if (!this.config.enabled || this.renamedTo.delete(filePath)) return false;
+    const metadata = this.folder.getMetadata(filePath);
+    if (!metadata) return false;
+    const suggestion = await this.suggestFor(filePath, metadata.type, new Set());
+    if (!suggestion) return false;
+
+    const { batch, skipped } = await this.apply([suggestion], true);
+    if (batch) console.error(`Renamed ${suggestion.from} to ${suggestion.to} (undo id: ${batch.id})`);
+    for (const { reason } of skipped) console.error(`Not renaming ${suggestion.from}: ${reason}`);
+    return batch !== undefined;
+  }
+
+  /**
+   * Rename the files of a batch (the latest if no id is given) back. Files
+   * renamed or replaced since are left alone.
+   */
+  public undo(id?: string): Promise<RenameResult> {
+    return this.serialize(async () => {
+      const batches = await this.readLog();
+      const batch = id ? batches.find(entry => entry.id === id) : batches[batches.length - 1];
+      if (!batch) {
+        throw new Error(id ? `No rename batch with id "${id}"` : "No renames to undo");
+      }
+
+      const done: { from: string; to: string }[] = [];
+      const skipped: RenameResult["skipped"] = [];
+      for (const { from, to } of [...batch.renames].reverse()) {
+        const reason = await this.move(to, from);
+        if (reason) skipped.push({ from: to, to: from, reason });
+        else done.push({ from: to, to: from });
+      }
+      await this.writeLog(batches.filter(entry => entry !== batch));
+      return { batch: { ...batch, renames: done }, skipped };
+    });
+  }
+
+  private async suggestFor(fullPath: string, type: string, claimed: Set<string>): Promise<RenameSuggestion | undefined> {
+    const ext = path.extname(fullPath);
+    const name = path.basename(fullPath, ext);
+    const matching = this.rules.filter(({ rule, pattern }) =>
+      (!pattern || pattern.test(name)) && (!rule.type || rule.type === type)
+    );
+    if (matching.length === 0) return undefined;
+
+    const placeholders = matching.flatMap(({ rule }) => templatePlaceholders(rule.template));
+    const values = await fileTemplateValues(this.folder, fullPath, type, placeholders);
+    for (const { rule } of matching) {
+      const newName = renderTemplate(rule.template, values);
+      if (!newName || newName === name) continue;
+
+      const from = this.sandbox.relative(fullPath);
+      const to = await uniquePath(this.sandbox, path.join(path.dirname(from), newName), ext, claimed);
+      claimed.add(to);
+      return { from, to, rule: rule.template };
+    }
+    return undefined;
+  }
+
+  /**
+   * Rename one file. Returns why it was skipped, or undefined once it is renamed.
+   */
+  private async move(from: string, to: string): Promise<string | undefined> {
+    const skipped = await moveFile(this.sandbox, this.versions, from, to);
+    if (!skipped && this.config.enabled) this.renamedTo.add(await this.sandbox.resolveForWrite(to));
+    return skipped;
+  }
+
+  /**
+   * Run log updates one at a time, so automatic renames and tool calls do
+   * not overwrite each other's entries.
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readLog(): Promise<RenameBatch[]> {
+    try {
+      const log = JSON.parse(await this.sandbox.readTextFile(LOG_FILE));
+      return log.version === LOG_FORMAT_VERSION ? log.batches : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeLog(batches: RenameBatch[]) {
+    const log = { version: LOG_FORMAT_VERSION, batches };
+    await this.sandbox.writeFile(LOG_FILE, JSON.stringify(log, null, 2), { internal: true });
+  }
+}
@@ -0,0 +1,156 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import * as path from "path";
+import { RootRegistry, SparkleRoot } from "./roots.js";
+import { FolderChangeEvent } from "./sparkle-folder.js";
+import { getMimeType, isTextMimeType, looksLikeText } from "./mime-types.js";
+
+const URI_SCHEME = "sparkle:";
+const PAGE_SIZE = 500;
+
+interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+  size?: number;
+}
+
+/**
+ * Build a resource URI: sparkle://<root>/<relative/path>
+ */
+export const toResourceUri = (rootName: string, relativePath: string): string => {
+  const encodedPath = relativePath
+    .split(path.sep)
+    .map(segment => encodeURIComponent(segment))
+    .join("/");
+  return `${URI_SCHEME}//${encodeURIComponent(rootName)}/${encodedPath}`;
+};
+
+/**
+ * Split a sparkle:// URI back into its root name and relative path.
+ */
+export const parseResourceUri = (uri: string): { root: string; path: string } => {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+  if (parsed.protocol !== URI_SCHEME || !parsed.hostname) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const relativePath = parsed.pathname
+    .split("/")
+    .filter(segment => segment)
+    .map(segment => decodeURIComponent(segment))
+    .join(path.sep);
+
+  return { root: decodeURIComponent(parsed.hostname), path: relativePath };
+};
+
+/**
+ * Exposes the files in every Sparkle root as MCP resources and turns watcher
+ * events into resource notifications.
+ */
+export class SparkleResources {
+  private server: Server;
+  private roots: RootRegistry;
+  private subscriptions: Set<string> = new Set();
+
+  constructor(server: Server, roots: RootRegistry) {
+    this.server = server;
+    this.roots = roots;
+
+    for (const root of this.roots.list()) {
+      root.folder.onChange(event => this.onFolderChange(root, event));
+      // Lists answered during the first index pass are partial; have clients list again once it is done
+      root.folder.waitForIndex().then(() => this.server.sendResourceListChanged()).catch(error => {
+        console.error("Error sending resource notification:", error);
+      });
+    }
+  }
+
+  public async listResources(cursor?: string): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+    const resources: ResourceEntry[] = [];
+
+    for (const root of this.roots.list()) {
+      for (const file of await root.folder.listFiles()) {
+        const relativePath = path.relative(root.path, file.path);
+        resources.push({
+          uri: toResourceUri(root.name, relativePath),
+          name: relativePath,
+          description: file.summary,
+          mimeType: getMimeType(file.path),
+          size: file.size,
+        });
+      }
+    }
+
+    // Cursor is the offset of the next page
+    const start = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const end = start + PAGE_SIZE;
+    return {
+      resources: resources.slice(start, end),
+      nextCursor: end < resources.length ? String(end) : undefined,
+    };
+  }
+
+  public listTemplates() {
+    return {
+      resourceTemplates: this.roots.list().map(root => ({
+        uriTemplate: `${URI_SCHEME}//${encodeURIComponent(root.name)}/{+path}`,
+        name: `Sparkle folder "${root.name}"`,
+        description: `Any file inside ${root.path}, addressed by its path relative to the folder`,
+      })),
+    };
+  }
+
+  public async readResource(uri: string) {
+    const { root: rootName, path: relativePath } = parseResourceUri(uri);
+    const { sandbox } = this.roots.get(rootName);
+
+    const stats = await sandbox.stat(relativePath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${uri}`);
+    }
+
+    const buffer = await sandbox.readFile(relativePath);
+    let mimeType = getMimeType(relativePath);
+    if (mimeType === "application/octet-stream" && looksLikeText(buffer)) {
+      mimeType = "text/plain";
+    }
+
+    if (isTextMimeType(mimeType)) {
+      return { contents: [{ uri, mimeType, text: buffer.toString("utf-8") }] };
+    }
+    return { contents: [{ uri, mimeType, blob: buffer.toString("base64") }] };
+  }
+
+  public subscribe(uri: string) {
+    // Validate the URI and root up front so bad subscriptions fail loudly
+    const { root } = parseResourceUri(uri);
+    this.roots.get(root);
+    this.subscriptions.add(uri);
+  }
+
+  public unsubscribe(uri: string) {
+    this.subscriptions.delete(uri);
+  }
+
+  private async onFolderChange(root: SparkleRoot, event: FolderChangeEvent) {
+    const uri = toResourceUri(root.name, path.relative(root.path, event.path));
+
+    try {
+      if (this.subscriptions.has(uri)) {
+        await this.server.sendResourceUpdated({ uri });
+      }
+      if (event.type !== "change") {
+        await this.server.sendResourceListChanged();
+      }
+    } catch (error) {
+      // Not connected yet, or the client went away
+      console.error("Error sending resource notification:", error);
+    }
+  }
+}
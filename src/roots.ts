@@ -0,0 +1,111 @@
+import { SparkleFolder } from "./sparkle-folder.js";
+import { SparkleSandbox } from "./sandbox.js";
+import { ClipboardHistoryManager } from "./clipboard-history.js";
+import { SparkleTrash } from "./trash.js";
+import { VersionHistory } from "./version-history.js";
+import { resolveRoots, SparkleConfig } from "./config.js";
+import { createEmbeddingProvider } from "./embeddings.js";
+import { IgnoreRules } from "./ignore-rules.js";
+import { ExtractionPool } from "./extraction-pool.js";
+import { RenameEngine } from "./rename-engine.js";
+import { FilingEngine } from "./filing-engine.js";
+
+export interface SparkleRoot {
+  name: string;
+  path: string;
+  pasteboardPath: string;
+  sandbox: SparkleSandbox;
+  ignore: IgnoreRules; // .sparkleignore rules, shared by the indexer, watcher and searches
+  folder: SparkleFolder;
+  clipboard: ClipboardHistoryManager;
+  trash: SparkleTrash;
+  versions: VersionHistory;
+  renames: RenameEngine;
+  filing: FilingEngine;
+}
+
+/**
+ * Holds one sandbox, index/watcher and clipboard manager per named root.
+ */
+export class RootRegistry {
+  private roots: Map<string, SparkleRoot> = new Map();
+  private defaultRoot: string;
+  private extractionPool: ExtractionPool = new ExtractionPool(); // Shared so roots do not each start workers
+
+  constructor(config: SparkleConfig) {
+    // One provider shared by all roots; each root keeps its own vectors
+    const embeddings = createEmbeddingProvider(config.embeddings);
+
+    for (const resolved of resolveRoots(config)) {
+      const sandbox = new SparkleSandbox(resolved.path, {
+        maxFileSize: config.maxFileSize,
+        allowSymlinks: false,
+      });
+      const ignore = new IgnoreRules(resolved.path);
+      const folder = new SparkleFolder(resolved.path, sandbox, ignore, embeddings, this.extractionPool);
+      const versions = new VersionHistory(sandbox, {
+        maxVersionsPerFile: config.maxVersionsPerFile,
+        maxTotalBytes: config.maxVersionStoreBytes,
+      });
+      const renames = new RenameEngine(sandbox, folder, versions, config.renames);
+      const filing = new FilingEngine(sandbox, folder, versions, config.filing);
+      if (renames.isAutomatic() || filing.isAutomatic()) {
+        folder.onChange(event => {
+          if (event.type !== "add") return;
+          // A renamed file arrives again under its new name, and is filed then
+          renames.renameNewFile(event.path)
+            .then(renamed => renamed ? undefined : filing.fileNewFile(event.path))
+            .catch(error => console.error("Error handling new file:", error));
+        });
+      }
+      this.roots.set(resolved.name, {
+        ...resolved,
+        sandbox,
+        ignore,
+        folder,
+        clipboard: new ClipboardHistoryManager(resolved.path, resolved.pasteboardPath),
+        trash: new SparkleTrash(sandbox, config.trashRetentionDays),
+        versions,
+        renames,
+        filing,
+      });
+    }
+
+    if (!this.roots.has(config.defaultRoot)) {
+      console.error(`Default root "${config.defaultRoot}" is not configured, falling back to the first root`);
+    }
+    this.defaultRoot = this.roots.has(config.defaultRoot)
+      ? config.defaultRoot
+      : this.roots.keys().next().value!;
+  }
+
+  /**
+   * Look up a root by name; no name means the default root.
+   */
+  public get(name?: string): SparkleRoot {
+    const root = this.roots.get(name || this.defaultRoot);
+    if (!root) {
+      throw new Error(`Unknown root "${name}". Available roots: ${this.getNames().join(", ")}`);
+    }
+    return root;
+  }
+
+  public getDefaultName(): string {
+    return this.defaultRoot;
+  }
+
+  public getNames(): string[] {
+    return [...this.roots.keys()];
+  }
+
+  public list(): SparkleRoot[] {
+    return [...this.roots.values()];
+  }
+
+  public async cleanup() {
+    for (const root of this.roots.values()) {
+      await root.folder.cleanup();
+    }
+    await this.extractionPool.close();
+  }
+}
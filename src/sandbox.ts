@@ -0,0 +1,300 @@
+import * as fs from "fs/promises";
+import { Dirent, Stats } from "fs";
+import * as path from "path";
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { AccessDeniedError, PathValidator, isPathInside } from "./security.js";
+import { isServerPath, SERVER_PATH_DENIED, TEMP_FILE_PREFIX } from "./internal-paths.js";
+import { sha256File } from "./hash.js";
+
+interface SandboxOptions {
+  maxFileSize?: number;
+  allowSymlinks?: boolean;
+}
+
+export interface WriteOptions {
+  overwrite?: boolean;       // false = create-only, fail if the file exists
+  expectedMtime?: string;    // ISO timestamp the file must still have
+  expectedSha256?: string;   // Hex digest the file must still have
+  internal?: boolean;        // Server bookkeeping: may write inside .sparkle-* directories
+  beforeReplace?: () => Promise<unknown>; // Runs once the preconditions hold, just before the file is replaced
+}
+
+export interface MoveOptions {
+  internal?: boolean;        // Server bookkeeping (trash): may move into or out of .sparkle-* directories
+  beforeReplace?: () => Promise<unknown>; // Runs once both ends are checked, just before the move
+}
+
+/**
+ * Raised when a write precondition does not hold. Nothing is written.
+ */
+export class PreconditionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreconditionFailedError";
+  }
+}
+
+/**
+ * Sandboxed filesystem access for a single Sparkle root.
+ *
+ * Every file tool goes through this class. Paths are resolved relative to the
+ * root (absolute paths are accepted but must land inside it), followed through
+ * realpath, and checked by PathValidator before any fs call is made.
+ * Writes, moves and new directories are refused for the server's own
+ * files (see isServerPath) unless the caller is the server itself.
+ */
+export class SparkleSandbox {
+  private root: string;
+  private realRoot?: string;
+  private validator: PathValidator;
+
+  constructor(root: string, options: SandboxOptions = {}) {
+    this.root = path.resolve(this.expandPath(root));
+    this.validator = new PathValidator({
+      allowedPaths: [this.root], // ONLY this root
+      maxFileSize: options.maxFileSize,
+      allowSymlinks: options.allowSymlinks ?? false,
+    });
+  }
+
+  private expandPath(folderPath: string): string {
+    if (folderPath.startsWith("~/")) {
+      return path.join(os.homedir(), folderPath.slice(2));
+    }
+    return folderPath;
+  }
+
+  public getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * The root with symlinks resolved (e.g. a Sparkle folder linked into iCloud).
+   * Validated paths are real paths, so comparisons happen against this.
+   */
+  private async getRealRoot(): Promise<string> {
+    if (!this.realRoot) {
+      try {
+        this.realRoot = await fs.realpath(this.root);
+      } catch {
+        return this.root;
+      }
+    }
+    return this.realRoot;
+  }
+
+  /**
+   * Turn a user-supplied path into an absolute path without touching the disk.
+   * Empty string and "." both mean the root itself.
+   */
+  private toAbsolute(requestedPath: string): string {
+    if (!requestedPath || requestedPath === ".") {
+      return this.root;
+    }
+    return path.isAbsolute(requestedPath)
+      ? path.resolve(requestedPath)
+      : path.resolve(this.root, requestedPath);
+  }
+
+  /**
+   * Resolve a path that must already exist. Files over maxFileSize are
+   * refused unless `anySize` is set, for callers that read only part of them.
+   */
+  public async resolve(requestedPath: string, anySize: boolean = false): Promise<string> {
+    await this.getRealRoot();
+    return this.withRequestedPath(requestedPath, () =>
+      this.validator.validatePath(this.toAbsolute(requestedPath), anySize)
+    );
+  }
+
+  /**
+   * Resolve a path that is about to be created or overwritten.
+   */
+  public async resolveForWrite(requestedPath: string): Promise<string> {
+    await this.getRealRoot();
+    return this.withRequestedPath(requestedPath, () =>
+      this.validator.validateNewPath(this.toAbsolute(requestedPath))
+    );
+  }
+
+  /**
+   * Report errors against the path the caller passed in, not the absolute
+   * one, so denials look the same no matter how the path was spelled.
+   */
+  private async withRequestedPath<T>(requestedPath: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (error instanceof AccessDeniedError) {
+        throw new AccessDeniedError(requestedPath || ".");
+      }
+      if (error.code === 'ENOENT' || /^Path does not exist/.test(error.message)) {
+        throw new Error(`Path does not exist: ${requestedPath || "."}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Express an absolute path (inside the root) relative to the root.
+   */
+  public relative(absolutePath: string): string {
+    const root = this.realRoot && isPathInside(this.realRoot, absolutePath)
+      ? this.realRoot
+      : this.root;
+    return path.relative(root, absolutePath);
+  }
+
+  public async readFile(requestedPath: string): Promise<Buffer> {
+    const fullPath = await this.resolve(requestedPath);
+    return fs.readFile(fullPath);
+  }
+
+  public async readTextFile(requestedPath: string): Promise<string> {
+    const fullPath = await this.resolve(requestedPath);
+    return fs.readFile(fullPath, "utf-8");
+  }
+
+  /**
+   * Write atomically: the content goes to a temp file in the same directory
+   * which is then renamed over the target, so readers never see a partial file.
+   */
+  public async writeFile(
+    requestedPath: string,
+    content: string | Buffer,
+    options: WriteOptions = {}
+  ): Promise<string> {
+    const fullPath = await this.resolveForWrite(requestedPath);
+    this.assertNotRoot(requestedPath, fullPath);
+    if (!options.internal) this.assertNotServerPath(requestedPath, fullPath);
+
+    const existing = await fs.stat(fullPath).catch(() => null);
+    if (existing?.isDirectory()) {
+      throw new Error(`Is a directory: ${requestedPath}`);
+    }
+    await this.checkPreconditions(requestedPath, fullPath, existing, options);
+
+    // Ensure directory exists
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    const tempPath = path.join(path.dirname(fullPath), `${TEMP_FILE_PREFIX}${randomUUID()}`);
+    try {
+      await fs.writeFile(tempPath, content, { mode: existing ? existing.mode & 0o777 : undefined });
+      await options.beforeReplace?.();
+
+      if (options.overwrite === false) {
+        // link() fails with EEXIST if someone created the file meanwhile
+        await fs.link(tempPath, fullPath).catch((error: any) => {
+          if (error.code === "EEXIST") {
+            throw new PreconditionFailedError(`File already exists: ${requestedPath}`);
+          }
+          throw error;
+        });
+        await fs.unlink(tempPath);
+      } else {
+        await fs.rename(tempPath, fullPath);
+      }
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return fullPath;
+  }
+
+  private async checkPreconditions(
+    requestedPath: string,
+    fullPath: string,
+    existing: Stats | null,
+    options: WriteOptions
+  ) {
+    if (options.overwrite === false && existing) {
+      throw new PreconditionFailedError(`File already exists: ${requestedPath}`);
+    }
+
+    if (options.expectedMtime !== undefined || options.expectedSha256 !== undefined) {
+      if (!existing) {
+        throw new PreconditionFailedError(`File no longer exists: ${requestedPath}`);
+      }
+
+      if (options.expectedMtime !== undefined) {
+        const expected = Date.parse(options.expectedMtime);
+        if (isNaN(expected)) {
+          throw new Error(`Invalid expectedMtime: ${options.expectedMtime}`);
+        }
+        // Timestamps round-trip through ISO strings, which keep milliseconds only
+        if (Math.floor(existing.mtimeMs) !== expected) {
+          throw new PreconditionFailedError(
+            `File was modified since it was read: ${requestedPath} ` +
+            `(expected mtime ${options.expectedMtime}, found ${existing.mtime.toISOString()})`
+          );
+        }
+      }
+
+      if (options.expectedSha256 !== undefined) {
+        const actual = await sha256File(fullPath);
+        if (actual !== options.expectedSha256.toLowerCase()) {
+          throw new PreconditionFailedError(
+            `File content changed since it was read: ${requestedPath} ` +
+            `(expected sha256 ${options.expectedSha256}, found ${actual})`
+          );
+        }
+      }
+    }
+  }
+
+  public async createDirectory(requestedPath: string): Promise<string> {
+    const fullPath = await this.resolveForWrite(requestedPath);
+    this.assertNotServerPath(requestedPath, fullPath);
+    await fs.mkdir(fullPath, { recursive: true });
+    return fullPath;
+  }
+
+  public async move(
+    source: string,
+    destination: string,
+    options: MoveOptions = {}
+  ): Promise<{ from: string; to: string }> {
+    const sourcePath = await this.resolve(source);
+    const destPath = await this.resolveForWrite(destination);
+    this.assertNotRoot(source, sourcePath);
+    this.assertNotRoot(destination, destPath);
+    if (!options.internal) {
+      this.assertNotServerPath(source, sourcePath);
+      this.assertNotServerPath(destination, destPath);
+    }
+    await options.beforeReplace?.();
+
+    // Ensure destination directory exists
+    await fs.mkdir(path.dirname(destPath), { recursive: true });
+    await fs.rename(sourcePath, destPath);
+    return { from: sourcePath, to: destPath };
+  }
+
+  public async stat(requestedPath: string): Promise<Stats> {
+    const fullPath = await this.resolve(requestedPath);
+    return fs.stat(fullPath);
+  }
+
+  public async readDirectory(requestedPath: string): Promise<Dirent[]> {
+    const fullPath = await this.resolve(requestedPath);
+    const stats = await fs.stat(fullPath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${requestedPath}`);
+    }
+    return fs.readdir(fullPath, { withFileTypes: true });
+  }
+
+  private assertNotServerPath(requestedPath: string, fullPath: string) {
+    if (isServerPath(this.relative(fullPath))) {
+      throw new AccessDeniedError(requestedPath, SERVER_PATH_DENIED);
+    }
+  }
+
+  private assertNotRoot(requestedPath: string, fullPath: string) {
+    if (this.relative(fullPath) === "") {
+      throw new AccessDeniedError(requestedPath || ".");
+    }
+  }
+}
@@ -1,13 +1,22 @@
 import { spawn } from "child_process";
+import { existsSync } from "fs";
 import * as path from "path";
 import * as fs from "fs/promises";
 import * as os from "os";
+import * as readline from "readline";
+import picomatch from "picomatch";
+import { rgPath } from "@vscode/ripgrep";
+import { INTERNAL_DIRECTORIES, isInternalPath } from "./internal-paths.js";
+import { parseSearchQuery } from "./query-parser.js";
+import { fuzzyMatch } from "./fuzzy-match.js";
+import { IgnoreRules } from "./ignore-rules.js";
 
 interface SearchOptions {
   query: string;
   locations?: string[];
   fileTypes?: string[];
   limit?: number;
+  ignore?: IgnoreRules;       // .sparkleignore rules of the root being searched
 }
 
 interface SearchResult {
@@ -17,6 +26,50 @@ interface SearchResult {
   lineNumber?: number;
 }
 
+export interface GrepOptions {
+  searchPath: string;         // Absolute, already validated directory or file
+  pattern: string;
+  literal?: boolean;          // Treat pattern as a fixed string instead of a regex
+  caseSensitive?: boolean;
+  include?: string[];         // Globs a file must match
+  exclude?: string[];         // Globs that skip a file or directory
+  contextLines?: number;
+  maxMatchesPerFile?: number;
+  maxFiles?: number;
+  ignore?: IgnoreRules;       // .sparkleignore rules of the root being searched
+}
+
+export interface GrepLine {
+  line: number;
+  text: string;
+}
+
+export interface GrepMatch extends GrepLine {
+  column: number; // 1-based, in characters
+  submatches: { text: string; start: number; end: number }[]; // 1-based columns, end exclusive
+  before: GrepLine[];
+  after: GrepLine[];
+}
+
+export interface GrepFileResult {
+  path: string;
+  matches: GrepMatch[];
+}
+
+// One line of a file as reported by rg --json (match or context)
+interface RawLine extends GrepLine {
+  submatches?: GrepMatch["submatches"];
+}
+
+const MAX_GREP_FILE_SIZE = 50 * 1024 * 1024; // 50MB, same as the ripgrep flag
+
+/**
+ * Path to the ripgrep binary bundled with @vscode/ripgrep, if it was installed.
+ */
+const getRipgrepPath = (): string | null => {
+  return existsSync(rgPath) ? rgPath : null;
+};
+
 export class FileSearchEngine {
   // No default locations - must be explicitly provided
   private defaultLocations: string[] = [];
@@ -27,6 +80,7 @@ export class FileSearchEngine {
       locations = this.defaultLocations,
       fileTypes = [],
       limit = 50,
+      ignore,
     } = options;
 
     // Expand paths
@@ -43,7 +97,8 @@ export class FileSearchEngine {
           searchPath,
           searchTerms,
           fileTypes,
-          limit - results.length
+          limit - results.length,
+          ignore
         );
         results.push(...pathResults);
         
@@ -66,32 +121,17 @@ export class FileSearchEngine {
   private parseQuery(query: string): {
     keywords: string[];
     fileTypes?: string[];
-    timeRange?: { from: Date; to: Date };
+    timeRange?: { from?: Date; to?: Date };
   } {
-    const queryLower = query.toLowerCase();
-    const keywords: string[] = [];
-    const fileTypes: string[] = [];
-
-    // Extract file type hints
-    if (queryLower.includes("pdf")) fileTypes.push(".pdf");
-    if (queryLower.includes("document")) fileTypes.push(".doc", ".docx", ".pdf");
-    if (queryLower.includes("image") || queryLower.includes("photo")) {
-      fileTypes.push(".jpg", ".jpeg", ".png", ".gif");
-    }
-    if (queryLower.includes("video")) fileTypes.push(".mp4", ".mov", ".avi");
-    if (queryLower.includes("audio") || queryLower.includes("podcast")) {
-      fileTypes.push(".mp3", ".wav", ".m4a");
-    }
+    const parsed = parseSearchQuery(query);
 
-    // Extract keywords (simple tokenization)
-    const words = query.split(/\\s+/);
-    for (const word of words) {
-      if (word.length > 2 && !this.isStopWord(word)) {
-        keywords.push(word.toLowerCase());
-      }
-    }
+    // Keywords come from the free text; operators become filters
+    const keywords = parsed.freeText
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !this.isStopWord(word))
+      .map(word => word.toLowerCase());
 
-    return { keywords, fileTypes };
+    return { keywords, fileTypes: parsed.extensions, timeRange: parsed.modified || parsed.dates };
   }
 
   private isStopWord(word: string): boolean {
@@ -101,11 +141,12 @@ export class FileSearchEngine {
 
   private async searchInPath(
     searchPath: string,
-    searchTerms: { keywords: string[]; fileTypes?: string[] },
+    searchTerms: { keywords: string[]; fileTypes?: string[]; timeRange?: { from?: Date; to?: Date } },
     requestedFileTypes: string[],
-    limit: number
+    limit: number,
+    ignore?: IgnoreRules
   ): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
+    let results: SearchResult[] = [];
     
     // Combine file types from query parsing and explicit request
     const fileTypes = [
@@ -118,7 +159,8 @@ export class FileSearchEngine {
         searchPath,
         searchTerms.keywords,
         fileTypes,
-        limit
+        limit,
+        ignore
       );
       
       results.push(...findResults);
@@ -129,10 +171,15 @@ export class FileSearchEngine {
           searchPath,
           searchTerms.keywords,
           fileTypes,
-          limit - results.length
+          limit - results.length,
+          ignore
         );
         results.push(...contentResults);
       }
+
+      if (searchTerms.timeRange) {
+        results = await this.filterByTime(results, searchTerms.timeRange);
+      }
     } catch (error) {
       console.error("Search error:", error);
     }
@@ -140,11 +187,30 @@ export class FileSearchEngine {
     return results;
   }
 
+  private async filterByTime(
+    results: SearchResult[],
+    timeRange: { from?: Date; to?: Date }
+  ): Promise<SearchResult[]> {
+    const filtered: SearchResult[] = [];
+    for (const result of results) {
+      try {
+        const modified = (await fs.stat(result.path)).mtime.getTime();
+        if (timeRange.from && modified < timeRange.from.getTime()) continue;
+        if (timeRange.to && modified >= timeRange.to.getTime()) continue;
+        filtered.push(result);
+      } catch {
+        // Gone since it was found
+      }
+    }
+    return filtered;
+  }
+
   private async findByName(
     searchPath: string,
     keywords: string[],
     fileTypes: string[],
-    limit: number
+    limit: number,
+    ignore?: IgnoreRules
   ): Promise<SearchResult[]> {
     return new Promise((resolve) => {
       const results: SearchResult[] = [];
@@ -169,10 +235,11 @@ export class FileSearchEngine {
       });
 
       find.on("close", () => {
-        const files = stdout.split("\\n").filter(f => f.trim());
+        const files = stdout.split("\n").filter(f => f.trim());
         
         for (const file of files) {
           if (results.length >= limit) break;
+          if (ignore?.isIgnored(file)) continue;
           
           const relevance = this.calculateNameRelevance(file, keywords);
           if (relevance > 0) {
@@ -196,24 +263,15 @@ export class FileSearchEngine {
     });
   }
 
+  /**
+   * Average fuzzy match score of the keywords against the file name;
+   * keywords that do not match count as 0.
+   */
   private calculateNameRelevance(filePath: string, keywords: string[]): number {
-    const fileName = path.basename(filePath).toLowerCase();
-    let relevance = 0;
-
-    for (const keyword of keywords) {
-      if (fileName.includes(keyword)) {
-        relevance += 0.6;
-      }
-    }
-
-    // Boost for exact matches
-    for (const keyword of keywords) {
-      if (fileName === keyword || fileName === `${keyword}.pdf` || fileName === `${keyword}.doc`) {
-        relevance += 0.4;
-      }
-    }
-
-    return Math.min(relevance, 1.0);
+    if (keywords.length === 0) return 0;
+    const fileName = path.basename(filePath);
+    const total = keywords.reduce((sum, keyword) => sum + (fuzzyMatch(keyword, fileName)?.score || 0), 0);
+    return total / keywords.length;
   }
 
   private shouldSearchContent(fileTypes: string[]): boolean {
@@ -225,7 +283,8 @@ export class FileSearchEngine {
     searchPath: string,
     keywords: string[],
     fileTypes: string[],
-    limit: number
+    limit: number,
+    ignore?: IgnoreRules
   ): Promise<SearchResult[]> {
     // Simple grep-based content search
     const results: SearchResult[] = [];
@@ -234,7 +293,7 @@ export class FileSearchEngine {
       if (results.length >= limit) break;
       
       const grepResults = await this.grepSearch(searchPath, keyword, fileTypes);
-      results.push(...grepResults);
+      results.push(...grepResults.filter(result => !ignore?.isIgnored(result.path)));
     }
 
     return results
@@ -251,12 +310,7 @@ export class FileSearchEngine {
       const results: SearchResult[] = [];
       
       // Try to use ripgrep first, fallback to grep
-      let rgPath: string | null = null;
-      try {
-        rgPath = require('@vscode/ripgrep').rgPath;
-      } catch (e) {
-        // Ripgrep not available, use regular grep
-      }
+      const rgPath = getRipgrepPath();
 
       let cmd: string;
       let args: string[];
@@ -340,4 +394,264 @@ export class FileSearchEngine {
       });
     });
   }
+
+  /**
+   * Content search with line/column numbers and optional context.
+   *
+   * Uses `rg --json` when the bundled ripgrep binary is available and an
+   * equivalent in-process scan otherwise. Hidden files, symlinks, the
+   * server's own directories and `.sparkleignore`d paths are skipped either way.
+   */
+  public async grep(options: GrepOptions): Promise<GrepFileResult[]> {
+    const rgPath = getRipgrepPath();
+    const grouped = rgPath
+      ? await this.ripgrepJson(rgPath, options)
+      : await this.scanFiles(options);
+
+    const contextLines = options.contextLines ?? 0;
+    return grouped.map(({ path: filePath, lines }) => ({
+      path: filePath,
+      matches: this.attachContext(lines, contextLines),
+    }));
+  }
+
+  private ripgrepJson(
+    rgPath: string,
+    options: GrepOptions
+  ): Promise<{ path: string; lines: RawLine[] }[]> {
+    const args = [
+      "--json",
+      "--no-config",
+      "--max-filesize", "50M",
+      "--max-count", String(options.maxMatchesPerFile ?? 20),
+      options.caseSensitive ? "--case-sensitive" : "--ignore-case",
+    ];
+    if (options.literal) args.push("--fixed-strings");
+    if (options.contextLines) args.push("--context", String(options.contextLines));
+    for (const glob of options.include || []) args.push("--glob", glob);
+    for (const glob of options.exclude || []) args.push("--glob", `!${glob}`);
+    for (const dir of INTERNAL_DIRECTORIES) args.push("--glob", `!${dir}`);
+    args.push("-e", options.pattern, "--", options.searchPath);
+
+    const maxFiles = options.maxFiles ?? 50;
+
+    return new Promise((resolve, reject) => {
+      const files: { path: string; lines: RawLine[] }[] = [];
+      let current: { path: string; lines: RawLine[] } | null = null;
+      let stderr = "";
+
+      const proc = spawn(rgPath, args);
+      const reader = readline.createInterface({ input: proc.stdout });
+
+      reader.on("line", (line) => {
+        let event: any;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          return;
+        }
+
+        switch (event.type) {
+          case "begin": {
+            // rg does not know .sparkleignore; skipped files do not count toward maxFiles
+            const filePath = this.rgText(event.data.path);
+            current = options.ignore?.isIgnored(filePath) ? null : { path: filePath, lines: [] };
+            break;
+          }
+          case "match":
+          case "context": {
+            if (!current) break;
+            const text = this.rgText(event.data.lines).replace(/\r?\n$/, "");
+            const raw: RawLine = { line: event.data.line_number, text };
+            if (event.type === "match") {
+              // rg reports byte offsets; convert to 1-based character columns
+              const bytes = Buffer.from(text, "utf-8");
+              const toColumn = (offset: number) => bytes.subarray(0, offset).toString("utf-8").length + 1;
+              raw.submatches = event.data.submatches.map((sub: any) => ({
+                text: this.rgText(sub.match),
+                start: toColumn(sub.start),
+                end: toColumn(sub.end),
+              }));
+            }
+            current.lines.push(raw);
+            break;
+          }
+          case "end":
+            if (current && current.lines.some(l => l.submatches)) {
+              files.push(current);
+            }
+            current = null;
+            if (files.length >= maxFiles) {
+              proc.kill();
+            }
+            break;
+        }
+      });
+
+      proc.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      proc.on("error", reject);
+
+      proc.on("close", (code) => {
+        // 0 = matches, 1 = no matches, 2 = error (possibly partial results)
+        if (code === 2 && files.length === 0) {
+          reject(new Error(stderr.trim() || "ripgrep failed"));
+          return;
+        }
+        resolve(files.slice(0, maxFiles));
+      });
+    });
+  }
+
+  /**
+   * rg --json encodes text as {text} or, for invalid UTF-8, {bytes} (base64).
+   */
+  private rgText(value: { text?: string; bytes?: string }): string {
+    if (value.text !== undefined) return value.text;
+    return Buffer.from(value.bytes || "", "base64").toString("utf-8");
+  }
+
+  /**
+   * Fallback when ripgrep is not installed: walk the tree and match in-process.
+   */
+  private async scanFiles(options: GrepOptions): Promise<{ path: string; lines: RawLine[] }[]> {
+    const escaped = options.literal
+      ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      : options.pattern;
+    let regex: RegExp;
+    try {
+      regex = new RegExp(escaped, options.caseSensitive ? "g" : "gi");
+    } catch (error) {
+      throw new Error(`Invalid regex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const include = (options.include || []).length > 0
+      ? picomatch(options.include!, { basename: true, dot: true })
+      : () => true;
+    const exclude = (options.exclude || []).length > 0
+      ? picomatch(options.exclude!, { basename: true, dot: true })
+      : () => false;
+
+    const maxFiles = options.maxFiles ?? 50;
+    const maxMatches = options.maxMatchesPerFile ?? 20;
+    const contextLines = options.contextLines ?? 0;
+    const results: { path: string; lines: RawLine[] }[] = [];
+
+    const stats = await fs.stat(options.searchPath);
+    const baseDir = stats.isDirectory() ? options.searchPath : path.dirname(options.searchPath);
+    const files = stats.isDirectory()
+      ? await this.collectFiles(options.searchPath, baseDir, exclude, options.ignore)
+      : [options.searchPath].filter(file => !options.ignore?.isIgnored(file));
+
+    for (const file of files) {
+      if (results.length >= maxFiles) break;
+      if (!include(path.relative(baseDir, file))) continue;
+
+      const fileStats = await fs.stat(file);
+      if (fileStats.size > MAX_GREP_FILE_SIZE) continue;
+
+      const buffer = await fs.readFile(file);
+      if (buffer.subarray(0, 8192).includes(0)) continue; // Binary, like rg
+
+      const fileLines = buffer.toString("utf-8").split(/\r?\n/);
+      if (fileLines[fileLines.length - 1] === "") fileLines.pop(); // Trailing newline
+      const matched = new Map<number, RawLine>();
+      for (let i = 0; i < fileLines.length && matched.size < maxMatches; i++) {
+        const submatches: GrepMatch["submatches"] = [];
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(fileLines[i])) !== null) {
+          if (match[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+          }
+          submatches.push({ text: match[0], start: match.index + 1, end: match.index + match[0].length + 1 });
+        }
+        if (submatches.length > 0) {
+          matched.set(i, { line: i + 1, text: fileLines[i], submatches });
+        }
+      }
+      if (matched.size === 0) continue;
+
+      // Emit match lines plus surrounding context in file order, as rg does
+      const lines: RawLine[] = [];
+      const wanted = new Set<number>();
+      for (const index of matched.keys()) {
+        for (let j = Math.max(0, index - contextLines); j <= Math.min(fileLines.length - 1, index + contextLines); j++) {
+          wanted.add(j);
+        }
+      }
+      for (const index of [...wanted].sort((a, b) => a - b)) {
+        lines.push(matched.get(index) || { line: index + 1, text: fileLines[index] });
+      }
+      results.push({ path: file, lines });
+    }
+
+    return results;
+  }
+
+  private async collectFiles(
+    dir: string,
+    baseDir: string,
+    exclude: (relativePath: string) => boolean,
+    ignore?: IgnoreRules
+  ): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(baseDir, fullPath);
+
+      // Hidden files and folders are skipped, as ripgrep does by default
+      if (entry.name.startsWith(".") || isInternalPath(relativePath) || exclude(relativePath) ||
+        ignore?.isIgnored(fullPath, entry.isDirectory())) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        files.push(...await this.collectFiles(fullPath, baseDir, exclude, ignore));
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Turn rg's flat stream of match/context lines into matches that carry
+   * their own before/after context.
+   */
+  private attachContext(lines: RawLine[], contextLines: number): GrepMatch[] {
+    const matches: GrepMatch[] = [];
+
+    lines.forEach((raw, index) => {
+      if (!raw.submatches) return;
+
+      const before: GrepLine[] = [];
+      for (let i = index - 1; i >= 0 && before.length < contextLines; i--) {
+        if (lines[i].line !== raw.line - before.length - 1) break;
+        before.unshift({ line: lines[i].line, text: lines[i].text });
+      }
+
+      const after: GrepLine[] = [];
+      for (let i = index + 1; i < lines.length && after.length < contextLines; i++) {
+        if (lines[i].line !== raw.line + after.length + 1) break;
+        after.push({ line: lines[i].line, text: lines[i].text });
+      }
+
+      matches.push({
+        line: raw.line,
+        column: raw.submatches[0]?.start ?? 1,
+        text: raw.text,
+        submatches: raw.submatches,
+        before,
+        after,
+      });
+    });
+
+    return matches;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,456 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "./sandbox.js";
+import { INDEX_DIRECTORY } from "./internal-paths.js";
+import { termFrequencies, tokenize } from "./tokenizer.js";
+import { chunkText } from "./chunker.js";
+import { FileSummary } from "./summarizer.js";
+import { sha256 } from "./hash.js";
+
+export interface IndexedChunk {
+  startLine: number; // 1-based; 0 for the name-only chunk of a file without text
+  endLine: number;
+  length: number;    // Weighted term count, for BM25 length normalization
+  terms: Record<string, number>;
+}
+
+export interface IndexedDocument {
+  path: string;    // Relative to the Sparkle root
+  size: number;
+  mtimeMs: number;
+  chunks: IndexedChunk[];
+  summary?: FileSummary;
+  signature?: number[]; // MinHash of the text, for near-duplicate detection
+  error?: string;  // Why the text could not be read; only the name is indexed
+}
+
+// Derived from a file's text alongside its terms, and stored with them
+export type DocumentDetails = Pick<IndexedDocument, "summary" | "signature" | "error">;
+
+export interface Passage {
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+export interface SearchHit {
+  path: string;
+  score: number;        // Score of the best chunk
+  passages: Passage[];  // Best matching line ranges, best first
+}
+
+export interface SimilarDocument {
+  path: string;
+  similarity: number;    // Cosine of the TF-IDF term vectors, 0..1
+  sharedTerms: string[]; // The terms contributing most to it, most first
+}
+
+export interface DocumentStats {
+  size: number;
+  mtimeMs: number;
+}
+
+interface IndexFile {
+  version: number;
+  documents: IndexedDocument[];
+}
+
+// Bump when tokenization, text extraction or the stored fields change; older indexes are rebuilt
+const INDEX_FORMAT_VERSION = 5;
+
+// Documents are spread over this many files by a hash of their path, so a
+// save only rewrites the files whose documents changed
+const SHARD_COUNT = 64;
+const SHARD_DIRECTORY = path.join(INDEX_DIRECTORY, "bm25");
+// The whole index in one file, as earlier versions kept it; moved to shards on load
+const LEGACY_INDEX_FILE = path.join(INDEX_DIRECTORY, "bm25.json");
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Terms in the file name count this many times over terms in the body
+const NAME_WEIGHT = 3;
+
+// Passages returned per hit, after merging overlapping chunks
+const MAX_PASSAGES = 3;
+
+// Similar documents must share one of this many of the source's strongest terms
+const SIMILARITY_QUERY_TERMS = 30;
+const SHARED_TERMS_SHOWN = 5;
+
+const SAVE_DELAY_MS = 2000;
+
+const shardOf = (relativePath: string): number => parseInt(sha256(relativePath).slice(0, 8), 16) % SHARD_COUNT;
+
+const shardFile = (shard: number): string => path.join(SHARD_DIRECTORY, `${String(shard).padStart(2, "0")}.json`);
+
+const vectorLength = (weights: Map<string, number>): number => {
+  let sum = 0;
+  for (const weight of weights.values()) sum += weight * weight;
+  return Math.sqrt(sum);
+};
+
+/**
+ * Persistent BM25 inverted index for one Sparkle root.
+ *
+ * Each file's text is split into overlapping chunks (see chunkText) that are
+ * scored on their own, so a match deep inside a long transcript ranks as well
+ * as one on its first page. Name and folder terms are added to every chunk.
+ * A file scores as its best chunk.
+ *
+ * Documents are stored under `.sparkle-index/bm25/` with the size and mtime
+ * they were indexed at, so unchanged files are not re-read after a restart.
+ * They are sharded by path, and a save rewrites only the shards that
+ * changed. Postings are rebuilt in memory from the stored term frequencies
+ * on load.
+ */
+export class SearchIndex {
+  private sandbox: SparkleSandbox;
+  private documents: Map<string, IndexedDocument> = new Map();
+  // term -> document path -> chunk index -> frequency
+  private postings: Map<string, Map<string, Map<number, number>>> = new Map();
+  private chunkCount: number = 0;
+  private totalLength: number = 0;
+  private shards: Set<string>[] = Array.from({ length: SHARD_COUNT }, () => new Set()); // Document paths per shard
+  private dirtyShards: Set<number> = new Set();
+  private legacyFile: boolean = false; // LEGACY_INDEX_FILE was read and is removed once the shards are saved
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(sandbox: SparkleSandbox) {
+    this.sandbox = sandbox;
+  }
+
+  public async load() {
+    let found = false;
+    let outdated = false;
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+      const data = await this.readIndexFile(shardFile(shard));
+      if (!data) continue;
+      found = true;
+      if (data.version !== INDEX_FORMAT_VERSION) {
+        outdated = true;
+        this.scheduleSave(shard); // Rewritten with the documents indexed afresh
+        continue;
+      }
+      for (const document of data.documents) {
+        this.add(document);
+      }
+    }
+
+    if (!found) {
+      const legacy = await this.readIndexFile(LEGACY_INDEX_FILE);
+      if (legacy) {
+        this.legacyFile = true;
+        outdated = legacy.version !== INDEX_FORMAT_VERSION;
+        for (const document of outdated ? [] : legacy.documents) {
+          this.add(document);
+          this.scheduleSave(shardOf(document.path));
+        }
+      }
+    }
+
+    if (outdated) {
+      console.error(`Search index format changed, rebuilding ${SHARD_DIRECTORY}`);
+    }
+    console.error(`Loaded ${this.documents.size} documents from ${SHARD_DIRECTORY}`);
+  }
+
+  /**
+   * Whether the stored entry was built from a file with this size and mtime.
+   */
+  public isCurrent(relativePath: string, stats: DocumentStats): boolean {
+    const document = this.documents.get(relativePath);
+    return !!document && document.size === stats.size && document.mtimeMs === stats.mtimeMs;
+  }
+
+  public get(relativePath: string): IndexedDocument | undefined {
+    return this.documents.get(relativePath);
+  }
+
+  public paths(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * (Re)index a file from its path and, for files with text, its content.
+   */
+  public update(relativePath: string, stats: DocumentStats, content?: string, details: DocumentDetails = {}) {
+    const nameTerms = tokenize(path.basename(relativePath, path.extname(relativePath)));
+    const folderTerms = tokenize(path.dirname(relativePath) === "." ? "" : path.dirname(relativePath));
+
+    const pathTerms = termFrequencies(folderTerms);
+    for (const term of nameTerms) {
+      pathTerms[term] = (pathTerms[term] || 0) + NAME_WEIGHT;
+    }
+
+    const textChunks = content ? chunkText(content) : [];
+    const chunks = (textChunks.length > 0 ? textChunks : [{ startLine: 0, endLine: 0, text: "" }]).map(chunk => {
+      const terms = termFrequencies(tokenize(chunk.text));
+      for (const [term, count] of Object.entries(pathTerms)) {
+        terms[term] = (terms[term] || 0) + count;
+      }
+      return {
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        length: Object.values(terms).reduce((sum, count) => sum + count, 0),
+        terms,
+      };
+    });
+
+    this.remove(relativePath);
+    this.add({ path: relativePath, size: stats.size, mtimeMs: stats.mtimeMs, chunks, ...details });
+    this.scheduleSave(shardOf(relativePath));
+  }
+
+  public remove(relativePath: string) {
+    const document = this.documents.get(relativePath);
+    if (!document) return;
+
+    for (const chunk of document.chunks) {
+      for (const term of Object.keys(chunk.terms)) {
+        const posting = this.postings.get(term);
+        posting?.delete(relativePath);
+        if (posting?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.totalLength -= chunk.length;
+    }
+    this.chunkCount -= document.chunks.length;
+    this.documents.delete(relativePath);
+    const shard = shardOf(relativePath);
+    this.shards[shard].delete(relativePath);
+    this.scheduleSave(shard);
+  }
+
+  /**
+   * Rank documents against a free-text query with Okapi BM25 over chunks.
+   */
+  public search(query: string, limit: number): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.chunkCount === 0) return [];
+
+    const averageLength = this.totalLength / this.chunkCount || 1;
+    // document path -> chunk index -> score
+    const scores = new Map<string, Map<number, number>>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      let chunksWithTerm = 0;
+      for (const chunkFrequencies of posting.values()) {
+        chunksWithTerm += chunkFrequencies.size;
+      }
+      const idf = Math.log(1 + (this.chunkCount - chunksWithTerm + 0.5) / (chunksWithTerm + 0.5));
+
+      for (const [documentPath, chunkFrequencies] of posting) {
+        const chunks = this.documents.get(documentPath)!.chunks;
+        let chunkScores = scores.get(documentPath);
+        if (!chunkScores) {
+          chunkScores = new Map();
+          scores.set(documentPath, chunkScores);
+        }
+        for (const [index, frequency] of chunkFrequencies) {
+          const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunks[index].length / averageLength);
+          const score = idf * (frequency * (BM25_K1 + 1)) / norm;
+          chunkScores.set(index, (chunkScores.get(index) || 0) + score);
+        }
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([documentPath, chunkScores]) => {
+        const chunks = this.documents.get(documentPath)!.chunks;
+        const ranked = [...chunkScores.entries()]
+          .map(([index, score]) => ({ startLine: chunks[index].startLine, endLine: chunks[index].endLine, score }))
+          .sort((a, b) => b.score - a.score);
+        return {
+          path: documentPath,
+          score: ranked[0].score,
+          passages: this.bestPassages(ranked.filter(passage => passage.startLine > 0)),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Documents most like an indexed one, by cosine similarity of their
+   * TF-IDF term vectors (summed over chunks), with the shared terms that
+   * weigh most. Only documents sharing one of the source's strongest terms
+   * are scored.
+   */
+  public similarTo(relativePath: string, limit: number): SimilarDocument[] {
+    const source = this.documents.get(relativePath);
+    if (!source) return [];
+
+    const sourceWeights = this.termWeights(source);
+    const sourceNorm = vectorLength(sourceWeights);
+    if (sourceNorm === 0) return [];
+
+    const candidates = new Set<string>();
+    const strongest = [...sourceWeights.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SIMILARITY_QUERY_TERMS);
+    for (const [term] of strongest) {
+      for (const documentPath of this.postings.get(term)?.keys() || []) {
+        candidates.add(documentPath);
+      }
+    }
+    candidates.delete(relativePath);
+
+    const results: SimilarDocument[] = [];
+    for (const documentPath of candidates) {
+      const weights = this.termWeights(this.documents.get(documentPath)!);
+      const contributions: [string, number][] = [];
+      let dot = 0;
+      for (const [term, weight] of weights) {
+        const sourceWeight = sourceWeights.get(term);
+        if (sourceWeight === undefined) continue;
+        dot += weight * sourceWeight;
+        contributions.push([term, weight * sourceWeight]);
+      }
+      if (dot === 0) continue;
+
+      results.push({
+        path: documentPath,
+        similarity: dot / (sourceNorm * vectorLength(weights)),
+        sharedTerms: contributions
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, SHARED_TERMS_SHOWN)
+          .map(([term]) => term),
+      });
+    }
+
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the debounce.
+   */
+  public async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    // One save at a time, so an older write of a shard never lands after a newer one
+    this.saving = this.saving.then(() => this.saveShards());
+    return this.saving;
+  }
+
+  private async saveShards() {
+    const shards = [...this.dirtyShards];
+    this.dirtyShards.clear();
+    for (const shard of shards) {
+      const data: IndexFile = {
+        version: INDEX_FORMAT_VERSION,
+        documents: [...this.shards[shard]].map(documentPath => this.documents.get(documentPath)!),
+      };
+      try {
+        await this.sandbox.writeFile(shardFile(shard), JSON.stringify(data), { internal: true });
+      } catch (error) {
+        this.dirtyShards.add(shard);
+        console.error(`Error saving search index to ${shardFile(shard)}:`, error);
+      }
+    }
+
+    if (this.legacyFile && this.dirtyShards.size === 0) {
+      this.legacyFile = false;
+      try {
+        await fs.rm(await this.sandbox.resolveForWrite(LEGACY_INDEX_FILE), { force: true });
+      } catch (error) {
+        console.error(`Error removing ${LEGACY_INDEX_FILE}:`, error);
+      }
+    }
+  }
+
+  /**
+   * The top passages from chunks sorted by score, with overlapping
+   * neighbours merged into one line range. Only the best few chunks are
+   * considered, so a term found everywhere does not span the whole file.
+   */
+  private bestPassages(ranked: Passage[]): Passage[] {
+    const passages: Passage[] = [];
+    for (const chunk of ranked.slice(0, MAX_PASSAGES * 2)) {
+      const overlapping = passages.find(passage =>
+        chunk.startLine <= passage.endLine + 1 && chunk.endLine >= passage.startLine - 1
+      );
+      if (overlapping) {
+        overlapping.startLine = Math.min(overlapping.startLine, chunk.startLine);
+        overlapping.endLine = Math.max(overlapping.endLine, chunk.endLine);
+      } else if (passages.length < MAX_PASSAGES) {
+        passages.push({ ...chunk });
+      }
+    }
+    return passages;
+  }
+
+  /**
+   * A document's terms weighted by (1 + log tf) * log(1 + N / df), where
+   * df counts documents rather than chunks.
+   */
+  private termWeights(document: IndexedDocument): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const chunk of document.chunks) {
+      for (const [term, frequency] of Object.entries(chunk.terms)) {
+        counts.set(term, (counts.get(term) || 0) + frequency);
+      }
+    }
+
+    const weights = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const documentFrequency = this.postings.get(term)?.size || 1;
+      weights.set(term, (1 + Math.log(count)) * Math.log(1 + this.documents.size / documentFrequency));
+    }
+    return weights;
+  }
+
+  /**
+   * An index file's contents; undefined if it is missing or unreadable.
+   */
+  private async readIndexFile(file: string): Promise<IndexFile | undefined> {
+    try {
+      return JSON.parse(await this.sandbox.readTextFile(file));
+    } catch {
+      return undefined; // First run, or unreadable; those documents get indexed fresh
+    }
+  }
+
+  private add(document: IndexedDocument) {
+    this.documents.set(document.path, document);
+    this.shards[shardOf(document.path)].add(document.path);
+    this.chunkCount += document.chunks.length;
+    document.chunks.forEach((chunk, index) => {
+      this.totalLength += chunk.length;
+      for (const [term, frequency] of Object.entries(chunk.terms)) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        let chunkFrequencies = posting.get(document.path);
+        if (!chunkFrequencies) {
+          chunkFrequencies = new Map();
+          posting.set(document.path, chunkFrequencies);
+        }
+        chunkFrequencies.set(index, frequency);
+      }
+    });
+  }
+
+  private scheduleSave(shard: number) {
+    this.dirtyShards.add(shard);
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
@@ -9,6 +9,33 @@ interface SecurityConfig {
   allowSymlinks?: boolean;
 }
 
+/**
+ * Raised whenever a requested path resolves outside the allowed roots,
+ * into a blocked directory, or through a disallowed symlink, or when a
+ * client tries to change one of the server's own files.
+ */
+export class AccessDeniedError extends Error {
+  public readonly requestedPath: string;
+
+  constructor(requestedPath: string, reason: string = "is outside the Sparkle folder") {
+    super(`Access denied: ${requestedPath} ${reason}`);
+    this.name = "AccessDeniedError";
+    this.requestedPath = requestedPath;
+  }
+}
+
+/**
+ * Check whether `candidate` is `root` itself or lives underneath it.
+ * Compares whole path segments, so `~/Sparkle-other` is not inside `~/Sparkle`.
+ */
+export const isPathInside = (root: string, candidate: string): boolean => {
+  const relative = path.relative(root, candidate);
+  if (relative === "") return true;
+  return relative !== ".." &&
+    !relative.startsWith(".." + path.sep) &&
+    !path.isAbsolute(relative);
+};
+
 export class PathValidator {
   private config: SecurityConfig;
   private defaultAllowedPaths: string[];
@@ -43,37 +70,24 @@ export class PathValidator {
     ];
   }
 
-  public async validatePath(requestedPath: string): Promise<string> {
+  /**
+   * Validate an existing path and return its real (symlink-free) location.
+   * `anySize` skips the file size limit, for reads of part of a file.
+   */
+  public async validatePath(requestedPath: string, anySize: boolean = false): Promise<string> {
     try {
-      // Resolve to absolute path
       const absolutePath = path.resolve(requestedPath);
-      
-      // Check if path exists
-      const stats = await fs.stat(absolutePath);
-      
-      // Check symlinks if not allowed
-      if (!this.config.allowSymlinks && stats.isSymbolicLink()) {
-        throw new Error("Symbolic links are not allowed");
-      }
-      
-      // Check if path is blocked
-      if (this.isPathBlocked(absolutePath)) {
-        throw new Error(`Access denied: Path is in blocked directory`);
-      }
-      
-      // Check if path is in allowed directories
-      if (!this.isPathAllowed(absolutePath)) {
-        throw new Error(`Access denied: Path is outside allowed directories`);
-      }
+      const realPath = await this.checkBoundaries(requestedPath, absolutePath, true);
       
       // Check file size if it's a file
-      if (stats.isFile() && this.config.maxFileSize) {
+      const stats = await fs.stat(realPath);
+      if (stats.isFile() && this.config.maxFileSize && !anySize) {
         if (stats.size > this.config.maxFileSize) {
           throw new Error(`File too large: ${stats.size} bytes exceeds limit`);
         }
       }
       
-      return absolutePath;
+      return realPath;
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         throw new Error(`Path does not exist: ${requestedPath}`);
@@ -82,27 +96,117 @@ export class PathValidator {
     }
   }
 
+  /**
+   * Validate a path that may not exist yet (a write or mkdir target).
+   * The nearest existing ancestor is resolved through realpath and the
+   * missing segments are appended, so a symlinked parent cannot escape.
+   */
+  public async validateNewPath(requestedPath: string): Promise<string> {
+    const absolutePath = path.resolve(requestedPath);
+    return this.checkBoundaries(requestedPath, absolutePath, false);
+  }
+
+  private async checkBoundaries(
+    requestedPath: string,
+    absolutePath: string,
+    mustExist: boolean
+  ): Promise<string> {
+    // Cheap lexical check first so obviously bad paths never touch the disk
+    if (this.isPathBlocked(absolutePath) || !this.isPathAllowed(absolutePath)) {
+      throw new AccessDeniedError(requestedPath);
+    }
+
+    const realPath = mustExist
+      ? await fs.realpath(absolutePath)
+      : await this.realpathOfNearestAncestor(absolutePath);
+
+    // A dangling symlink would let a later write create its target anywhere
+    if (realPath === null) {
+      throw new AccessDeniedError(requestedPath);
+    }
+
+    if (this.isPathBlocked(realPath) || !(await this.isRealPathAllowed(realPath))) {
+      throw new AccessDeniedError(requestedPath);
+    }
+
+    if (!this.config.allowSymlinks && !(await this.matchesLexicalPath(absolutePath, realPath))) {
+      throw new AccessDeniedError(requestedPath);
+    }
+
+    return realPath;
+  }
+
+  /**
+   * Resolve the deepest existing ancestor and re-append the missing tail.
+   * Returns null when a component exists but cannot be resolved (a dangling symlink).
+   */
+  private async realpathOfNearestAncestor(absolutePath: string): Promise<string | null> {
+    const missing: string[] = [];
+    let current = absolutePath;
+
+    while (true) {
+      try {
+        const real = await fs.realpath(current);
+        return path.join(real, ...missing.reverse());
+      } catch (error: any) {
+        if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+        if (await this.existsWithoutFollowing(current)) return null;
+        const parent = path.dirname(current);
+        if (parent === current) throw error;
+        missing.push(path.basename(current));
+        current = parent;
+      }
+    }
+  }
+
+  private async existsWithoutFollowing(checkPath: string): Promise<boolean> {
+    try {
+      await fs.lstat(checkPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * True when no symlink was traversed below the allowed root containing
+   * the path. Symlinks above the root (e.g. /var -> /private/var) are fine.
+   */
+  private async matchesLexicalPath(absolutePath: string, realPath: string): Promise<boolean> {
+    for (const allowed of this.getAllowedPaths()) {
+      const allowedAbsolute = path.resolve(allowed);
+      if (!isPathInside(allowedAbsolute, absolutePath)) continue;
+
+      const realRoot = await this.realpathOfNearestAncestor(allowedAbsolute);
+      if (realRoot === null) continue;
+      const expected = path.join(realRoot, path.relative(allowedAbsolute, absolutePath));
+      if (expected === realPath) return true;
+    }
+    return false;
+  }
+
   private isPathBlocked(checkPath: string): boolean {
-    const blockedPaths = [
-      ...this.defaultBlockedPaths,
-      ...(this.config.blockedPaths || [])
-    ];
-    
-    return blockedPaths.some(blocked => {
+    return this.getBlockedPaths().some(blocked => {
       const blockedAbsolute = path.resolve(blocked);
-      return checkPath.startsWith(blockedAbsolute);
+      return isPathInside(blockedAbsolute, checkPath);
     });
   }
 
   private isPathAllowed(checkPath: string): boolean {
-    const allowedPaths = this.config.allowedPaths || this.defaultAllowedPaths;
-    
-    return allowedPaths.some(allowed => {
+    return this.getAllowedPaths().some(allowed => {
       const allowedAbsolute = path.resolve(allowed);
-      return checkPath.startsWith(allowedAbsolute);
+      return isPathInside(allowedAbsolute, checkPath);
     });
   }
 
+  private async isRealPathAllowed(realPath: string): Promise<boolean> {
+    for (const allowed of this.getAllowedPaths()) {
+      const realRoot = await this.realpathOfNearestAncestor(path.resolve(allowed));
+      if (realRoot !== null && isPathInside(realRoot, realPath)) return true;
+    }
+    return false;
+  }
+
   public sanitizeFilename(filename: string): string {
     // Remove any path traversal attempts
     const sanitized = filename
@@ -1,17 +1,109 @@
 import * as fs from "fs/promises";
+import { Stats } from "fs";
 import * as path from "path";
 import * as os from "os";
 import chokidar from "chokidar";
-
-interface FileMetadata {
+import { isInternalPath } from "./internal-paths.js";
+import { SparkleSandbox } from "./sandbox.js";
+import { DocumentStats, Passage, SearchIndex } from "./search-index.js";
+import { EmbeddingProvider } from "./embeddings.js";
+import { VectorStore } from "./vector-store.js";
+import { hasQueryFilters, matchesQueryFilters, matchesQueryText, parseSearchQuery } from "./query-parser.js";
+import { ExtractedText, extractText, getExtractorFormat } from "./text-extractors.js";
+import { ExtractionPool } from "./extraction-pool.js";
+import { FileSummary, summarize, summaryText } from "./summarizer.js";
+import { minHashSignature } from "./minhash.js";
+import { IGNORE_FILE, IgnoreRules } from "./ignore-rules.js";
+
+export interface FileMetadata {
   path: string;
   name: string;
   size: number;
   modified: Date;
+  created: Date;
   type: string;
-  content?: string;
+  summary?: string; // One line; the full FileSummary is available from getSummary
+}
+
+export type FolderChangeType = "add" | "change" | "unlink";
+
+export interface FolderChangeEvent {
+  type: FolderChangeType;
+  path: string;
+}
+
+export type FolderChangeListener = (event: FolderChangeEvent) => void;
+
+/**
+ * One pass over the files of a folder, as reported by index_status and reindex.
+ */
+export interface IndexRun {
+  scope: string;      // Folder or file that was indexed, relative to the root; "" for the whole root
+  force: boolean;     // Whether unchanged files were read again
+  startedAt: Date;
+  finishedAt?: Date;
+  total: number;      // Files found
+  processed: number;
+  reread: number;     // New, changed or forced files whose content was read
+  failed: number;
+}
+
+export interface IndexStatus {
+  state: "loading" | "indexing" | "ready";
+  files: number;
+  byType: Record<string, number>;
+  run?: IndexRun;     // The pass in progress, or the last one
+  errors: { path: string; error: string }[]; // Files whose text could not be read
+  pendingEmbeddings: number;
+}
+
+export type IndexProgressListener = (run: IndexRun) => void;
+
+// Text past this point is not indexed (roughly a 1,000 page book)
+const MAX_INDEXED_CHARS = 2 * 1024 * 1024;
+
+// Embedding input is shorter; HTTP models cap input at a few thousand tokens
+const MAX_EMBEDDED_CHARS = 8000;
+const EMBEDDING_BATCH_SIZE = 32;
+
+// After a failed batch, its files are retried one by one, and dropped (until
+// they change or the server restarts) after this many failures
+const MAX_EMBEDDING_ATTEMPTS = 3;
+// Wait before the next batch after a failure, doubling while failures continue
+const EMBEDDING_RETRY_MS = 500;
+const MAX_EMBEDDING_RETRY_MS = 60_000;
+
+// How keyword (BM25) and vector scores are blended in findRelevant
+const KEYWORD_WEIGHT = 0.6;
+const VECTOR_WEIGHT = 0.4;
+
+// Files with no keyword match need at least this cosine similarity to be returned
+const MIN_VECTOR_SIMILARITY = 0.2;
+
+/**
+ * Run `task` over `items`, at most `limit` at a time. `task` must not throw.
+ */
+const forEachConcurrent = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+export interface FilePassage extends Passage {
+  text: string; // The passage's lines, from the file's (extracted) text
+}
+
+export interface SimilarFile {
+  path: string;
+  similarity: number;        // Blend of the two below, like findRelevant's relevance
+  termSimilarity: number;    // Cosine of TF-IDF term vectors
+  vectorSimilarity?: number; // Cosine of embeddings, when both files have one
+  sharedTerms: string[];     // Key terms the files have in common, strongest first
   summary?: string;
-  embedding?: number[];
 }
 
 interface FileResult {
@@ -19,17 +111,49 @@ interface FileResult {
   relevance: number;
   summary?: string;
   metadata?: FileMetadata;
+  passages?: FilePassage[]; // Best matching line ranges for the free text, best first
 }
 
 export class SparkleFolder {
   private folderPath: string;
+  private sandbox: SparkleSandbox;
   private fileIndex: Map<string, FileMetadata> = new Map();
+  private searchIndex: SearchIndex;
+  private ignoreRules: IgnoreRules;
+  private embeddings: EmbeddingProvider | null;
+  private vectorStore: VectorStore | null;
+  private pendingEmbeddings: Map<string, { stats: DocumentStats; text: string }> = new Map();
+  private embeddingAttempts: Map<string, number> = new Map(); // Relative path -> failed embedding attempts
+  private embeddingRun?: Promise<void>;
+  private embeddingRetry?: { timer: NodeJS.Timeout; wake: () => void };
+  private closed: boolean = false;
+  private extractionPool: ExtractionPool;
   private watcher?: chokidar.FSWatcher;
-  private indexReady: boolean = false;
-
-  constructor(folderPath: string) {
+  private loaded: boolean = false;
+  private loading: Promise<void>; // Saved index read back
+  private ready: Promise<void>;   // First full index pass done
+  private indexQueue: Promise<unknown> = Promise.resolve(); // Index passes run one after another
+  private currentRun?: IndexRun;
+  private indexErrors: Map<string, string> = new Map(); // Relative path -> why its text could not be read
+  private changeListeners: FolderChangeListener[] = [];
+  private heldEvents?: Map<string, FolderChangeType>; // Watcher events during the first pass, by path
+
+  constructor(
+    folderPath: string,
+    sandbox: SparkleSandbox,
+    ignoreRules: IgnoreRules,
+    embeddings: EmbeddingProvider | null,
+    extractionPool: ExtractionPool
+  ) {
     this.folderPath = this.expandPath(folderPath);
-    this.initialize();
+    this.sandbox = sandbox;
+    this.searchIndex = new SearchIndex(sandbox);
+    this.ignoreRules = ignoreRules;
+    this.embeddings = embeddings;
+    this.vectorStore = embeddings ? new VectorStore(sandbox, embeddings.id) : null;
+    this.extractionPool = extractionPool;
+    this.loading = this.loadIndexes();
+    this.ready = this.initialize();
   }
 
   private expandPath(folderPath: string): string {
@@ -39,17 +163,55 @@ export class SparkleFolder {
     return folderPath;
   }
 
+  private async loadIndexes() {
+    await this.searchIndex.load();
+    await this.vectorStore?.load();
+    this.loaded = true;
+  }
+
   private async initialize() {
     // Create folder if it doesn't exist
     await fs.mkdir(this.folderPath, { recursive: true });
     
-    // Initial indexing
-    await this.indexAllFiles();
-    
-    // Set up file watcher
+    // Initial indexing, reusing whatever is still current in the saved index.
+    // Searches answer from the files indexed so far while it runs. The
+    // watcher starts first, but its events wait for the pass to finish: the
+    // pass would otherwise drop files added meanwhile as deleted.
+    await this.loading;
+    this.heldEvents = new Map();
     this.setupWatcher();
-    
-    this.indexReady = true;
+    await this.reindex();
+    await this.replayHeldEvents();
+  }
+
+  private onWatcherEvent(type: FolderChangeType, filePath: string) {
+    if (this.heldEvents) {
+      // A file added during the pass stays "add" whatever happens to it next
+      if (this.heldEvents.get(filePath) !== "add" || type === "unlink") this.heldEvents.set(filePath, type);
+      return;
+    }
+    if (type === "add") return this.onFileAdded(filePath);
+    if (type === "change") return this.onFileChanged(filePath);
+    return this.onFileRemoved(filePath);
+  }
+
+  /**
+   * Bring the index in line with what happened during the first pass, by
+   * what is on disk now.
+   */
+  private async replayHeldEvents() {
+    const events = this.heldEvents!;
+    this.heldEvents = undefined;
+    for (const [filePath, type] of events) {
+      try {
+        const exists = await fs.stat(filePath).then(stats => stats.isFile(), () => false);
+        if (!exists) await this.onFileRemoved(filePath);
+        else if (type === "add") await this.onFileAdded(filePath);
+        else await this.onFileChanged(filePath);
+      } catch (error) {
+        console.error(`Error updating the index for ${filePath}:`, error);
+      }
+    }
   }
 
   private setupWatcher() {
@@ -57,46 +219,208 @@ export class SparkleFolder {
       persistent: true,
       ignoreInitial: true,
       depth: 5,
+      // Trash and other server-managed folders are never indexed, nor is anything in .sparkleignore
+      ignored: (filePath: string, stats?: { isDirectory(): boolean }) =>
+        isInternalPath(path.relative(this.folderPath, filePath)) ||
+        this.ignoreRules.isIgnored(filePath, stats?.isDirectory()),
     });
 
     this.watcher
-      .on("add", (filePath) => this.onFileAdded(filePath))
-      .on("change", (filePath) => this.onFileChanged(filePath))
-      .on("unlink", (filePath) => this.onFileRemoved(filePath));
+      .on("add", (filePath) => this.onWatcherEvent("add", filePath))
+      .on("change", (filePath) => this.onWatcherEvent("change", filePath))
+      .on("unlink", (filePath) => this.onWatcherEvent("unlink", filePath));
+  }
+
+  /**
+   * Register a listener for watcher events (fired after the index is updated).
+   */
+  public onChange(listener: FolderChangeListener) {
+    this.changeListeners.push(listener);
+  }
+
+  private emitChange(type: FolderChangeType, filePath: string) {
+    for (const listener of this.changeListeners) {
+      try {
+        listener({ type, path: filePath });
+      } catch (error) {
+        console.error("Error in folder change listener:", error);
+      }
+    }
   }
 
   private async onFileAdded(filePath: string) {
+    if (await this.handleIgnoreChange(filePath)) return;
     console.error(`New file in Sparkle folder: ${filePath}`);
-    const metadata = await this.indexFile(filePath);
-    
-    // Auto-enhance file name if needed
-    if (this.needsBetterName(metadata)) {
-      await this.enhanceFileName(filePath, metadata);
-    }
+    await this.indexFile(filePath);
+    this.emitChange("add", filePath);
   }
 
   private async onFileChanged(filePath: string) {
+    if (await this.handleIgnoreChange(filePath)) return;
     console.error(`File changed: ${filePath}`);
     await this.indexFile(filePath);
+    this.emitChange("change", filePath);
   }
 
-  private onFileRemoved(filePath: string) {
+  private async onFileRemoved(filePath: string) {
+    if (path.basename(filePath) === IGNORE_FILE) {
+      await this.applyIgnoreRules(filePath);
+    }
     console.error(`File removed: ${filePath}`);
     this.fileIndex.delete(filePath);
+    this.removeFromIndexes(this.toRelative(filePath));
+    this.emitChange("unlink", filePath);
   }
 
-  private async indexAllFiles() {
+  /**
+   * Re-read the rules when a .sparkleignore file changes, and drop events
+   * for paths that are now ignored (the watcher only skips them once it
+   * has seen the new rules). Returns true when the event should be dropped.
+   */
+  private async handleIgnoreChange(filePath: string): Promise<boolean> {
+    if (path.basename(filePath) === IGNORE_FILE) {
+      await this.applyIgnoreRules(filePath);
+    }
+    if (this.ignoreRules.isIgnored(filePath)) {
+      if (this.fileIndex.delete(filePath)) {
+        this.removeFromIndexes(this.toRelative(filePath));
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Reload the ignore rules and bring the index in line: newly ignored files
+   * are dropped and newly visible ones indexed and watched.
+   */
+  private async applyIgnoreRules(ignoreFile: string) {
+    console.error(`Ignore rules changed: ${ignoreFile}`);
+    this.ignoreRules.reload();
+    for (const filePath of [...this.fileIndex.keys()]) {
+      if (this.ignoreRules.isIgnored(filePath)) {
+        this.fileIndex.delete(filePath);
+        this.removeFromIndexes(this.toRelative(filePath));
+      }
+    }
+    await this.reindex();
+    this.watcher?.add(path.dirname(ignoreFile));
+  }
+
+  /**
+   * Index the files under `scope` (a folder or file relative to the root,
+   * "" for everything), after any pass already running. Files whose size and
+   * modification time match the saved index are not read again unless
+   * `force` is set.
+   */
+  public reindex(scope: string = "", force: boolean = false, onProgress?: IndexProgressListener): Promise<IndexRun> {
+    const run = this.indexQueue.then(() => this.indexAllFiles(scope, force, onProgress));
+    this.indexQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Unchanged files go into the file index first, straight from the saved
+   * index, so searches see them right away; new and changed files are then
+   * read in parallel, their text extracted on worker threads.
+   */
+  private async indexAllFiles(scope: string, force: boolean, onProgress?: IndexProgressListener): Promise<IndexRun> {
+    const run: IndexRun = { scope, force, startedAt: new Date(), total: 0, processed: 0, reread: 0, failed: 0 };
+    this.currentRun = run;
+    const target = path.join(this.folderPath, scope);
+    const inScope = (relativePath: string) =>
+      !scope || relativePath === scope || relativePath.startsWith(scope + path.sep);
+
+    const indexOne = async (file: string, stats?: Stats) => {
+      try {
+        await this.indexFile(file, stats, force);
+        if (this.indexErrors.has(this.toRelative(file))) run.failed++;
+      } catch (error) {
+        console.error(`Error indexing ${file}:`, error);
+        this.indexErrors.set(this.toRelative(file), error instanceof Error ? error.message : String(error));
+        run.failed++;
+      }
+      run.processed++;
+      onProgress?.(run);
+    };
+
     try {
-      const files = await this.walkDirectory(this.folderPath);
-      
+      const targetStats = await fs.stat(target);
+      const files = targetStats.isDirectory()
+        ? await this.walkDirectory(target)
+        : this.ignoreRules.isIgnored(target) || isInternalPath(scope) ? [] : [target];
+      run.total = files.length;
+
+      const changed: { file: string; stats: Stats }[] = [];
       for (const file of files) {
-        await this.indexFile(file);
+        let stats;
+        try {
+          stats = await fs.stat(file);
+        } catch (error) {
+          await indexOne(file); // Reports why it cannot be read
+          continue;
+        }
+        if (force || !this.isIndexed(file, stats)) {
+          changed.push({ file, stats });
+        } else {
+          await indexOne(file, stats);
+        }
       }
-      
-      console.error(`Indexed ${this.fileIndex.size} files in Sparkle folder`);
+
+      run.reread = changed.length;
+      await forEachConcurrent(changed, this.extractionPool.getSize() * 2, ({ file, stats }) => indexOne(file, stats));
+
+      // Drop entries for files deleted while the server was not running (or the watcher missed)
+      const present = new Set(files.map(file => this.toRelative(file)));
+      for (const filePath of [...this.fileIndex.keys()]) {
+        const relativePath = this.toRelative(filePath);
+        if (inScope(relativePath) && !present.has(relativePath)) {
+          this.fileIndex.delete(filePath);
+        }
+      }
+      for (const relativePath of [...this.searchIndex.paths(), ...(this.vectorStore?.paths() || []), ...this.indexErrors.keys()]) {
+        if (inScope(relativePath) && !present.has(relativePath)) {
+          this.removeFromIndexes(relativePath);
+        }
+      }
+      await this.searchIndex.flush();
+
+      const seconds = ((Date.now() - run.startedAt.getTime()) / 1000).toFixed(1);
+      console.error(
+        `Indexed ${run.total} files in ${scope || "Sparkle folder"} in ${seconds}s ` +
+        `(${run.reread} new or changed, ${run.failed} failed)`
+      );
     } catch (error) {
       console.error("Error indexing files:", error);
     }
+
+    run.finishedAt = new Date();
+    return run;
+  }
+
+  private isIndexed(filePath: string, stats: DocumentStats): boolean {
+    const relativePath = this.toRelative(filePath);
+    return this.searchIndex.isCurrent(relativePath, stats) &&
+      (!this.vectorStore || this.vectorStore.isCurrent(relativePath, stats));
+  }
+
+  /**
+   * Progress of the current (or last) index pass, file counts by type, and
+   * the files whose text could not be read.
+   */
+  public getIndexStatus(): IndexStatus {
+    const byType: Record<string, number> = {};
+    for (const metadata of this.fileIndex.values()) {
+      byType[metadata.type] = (byType[metadata.type] || 0) + 1;
+    }
+    return {
+      state: !this.loaded ? "loading" : this.currentRun && !this.currentRun.finishedAt ? "indexing" : "ready",
+      files: this.fileIndex.size,
+      byType,
+      run: this.currentRun,
+      errors: [...this.indexErrors].map(([path, error]) => ({ path, error })),
+      pendingEmbeddings: this.pendingEmbeddings.size,
+    };
   }
 
   private async walkDirectory(dir: string): Promise<string[]> {
@@ -106,6 +430,11 @@ export class SparkleFolder {
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name);
       
+      if (isInternalPath(path.relative(this.folderPath, fullPath)) ||
+        this.ignoreRules.isIgnored(fullPath, entry.isDirectory())) {
+        continue;
+      }
+      
       if (entry.isDirectory() && !entry.name.startsWith(".")) {
         files.push(...await this.walkDirectory(fullPath));
       } else if (entry.isFile()) {
@@ -116,8 +445,13 @@ export class SparkleFolder {
     return files;
   }
 
-  private async indexFile(filePath: string): Promise<FileMetadata> {
-    const stats = await fs.stat(filePath);
+  private async indexFile(
+    filePath: string,
+    knownStats?: DocumentStats & { mtime: Date; birthtime: Date },
+    force: boolean = false
+  ): Promise<FileMetadata> {
+    const stats = knownStats || await fs.stat(filePath);
+    const relativePath = this.toRelative(filePath);
     const ext = path.extname(filePath).toLowerCase();
     
     const metadata: FileMetadata = {
@@ -125,27 +459,147 @@ export class SparkleFolder {
       name: path.basename(filePath),
       size: stats.size,
       modified: stats.mtime,
+      created: stats.birthtime,
       type: this.getFileType(ext),
     };
 
-    // Extract content based on file type
-    if (this.isTextFile(ext)) {
-      try {
-        const content = await fs.readFile(filePath, "utf-8");
-        metadata.content = content.slice(0, 50000); // First 50KB for indexing
-        metadata.summary = this.generateSummary(content);
-      } catch (error) {
-        console.error(`Error reading ${filePath}:`, error);
-      }
+    // Unchanged since it was last indexed; no need to read it again
+    const indexCurrent = !force && this.searchIndex.isCurrent(relativePath, stats);
+    const vectorCurrent = !force && (!this.vectorStore || this.vectorStore.isCurrent(relativePath, stats));
+    const cached = indexCurrent ? this.searchIndex.get(relativePath) : undefined;
+    if (cached?.summary) {
+      metadata.summary = summaryText(cached.summary);
+    }
+    if (cached?.error) {
+      this.indexErrors.set(relativePath, cached.error);
+    }
+    if (indexCurrent && vectorCurrent) {
+      this.fileIndex.set(filePath, metadata);
+      return metadata;
     }
 
-    // Generate embedding for semantic search
-    metadata.embedding = await this.generateEmbedding(metadata);
+    // Plain text, or the text extracted from PDFs, Office documents, HTML and RTF
+    let content: string | undefined;
+    let summary: FileSummary | undefined;
+    let signature: number[] | undefined;
+    let extractionError: string | undefined;
+    try {
+      content = await this.readText(filePath, file => this.extractionPool.extract(file));
+      if (content !== undefined) {
+        summary = summarize(content, filePath);
+        signature = minHashSignature(content);
+        metadata.summary = summaryText(summary);
+      }
+      this.indexErrors.delete(relativePath);
+    } catch (error) {
+      console.error(`Error extracting text from ${filePath}:`, error);
+      extractionError = error instanceof Error ? error.message : String(error);
+      this.indexErrors.set(relativePath, extractionError);
+    }
 
+    if (!indexCurrent) {
+      this.searchIndex.update(relativePath, stats, content, { summary, signature, error: extractionError });
+    }
     this.fileIndex.set(filePath, metadata);
+    if (!vectorCurrent) {
+      const text = `${metadata.name}\n${content || ""}`.slice(0, MAX_EMBEDDED_CHARS);
+      this.pendingEmbeddings.set(relativePath, { stats, text });
+      this.embeddingAttempts.delete(relativePath);
+      this.processEmbeddings();
+    }
     return metadata;
   }
 
+  /**
+   * Embed queued files in batches, in the background. The files of a failed
+   * batch are queued again and retried one at a time after a pause, so one
+   * file the provider rejects does not hold back the rest. Files dropped
+   * after MAX_EMBEDDING_ATTEMPTS are picked up again after a restart, since
+   * their vectors are missing.
+   */
+  private processEmbeddings() {
+    if (!this.embeddings || !this.vectorStore || this.embeddingRun || this.closed) return;
+    const embeddings = this.embeddings;
+    const vectorStore = this.vectorStore;
+
+    this.embeddingRun = (async () => {
+      let failures = 0; // In a row
+      while (this.pendingEmbeddings.size > 0 && !this.closed) {
+        const queued = [...this.pendingEmbeddings.entries()];
+        const retry = queued.find(([relativePath]) => this.embeddingAttempts.has(relativePath));
+        const batch = retry ? [retry] : queued.slice(0, EMBEDDING_BATCH_SIZE);
+        for (const [relativePath] of batch) {
+          this.pendingEmbeddings.delete(relativePath);
+        }
+
+        try {
+          const vectors = await embeddings.embed(batch.map(([, item]) => item.text));
+          batch.forEach(([relativePath, item], index) => {
+            this.embeddingAttempts.delete(relativePath);
+            // Skip files deleted while their batch was in flight
+            if (this.fileIndex.has(path.join(this.folderPath, relativePath))) {
+              vectorStore.set(relativePath, item.stats, vectors[index]);
+            }
+          });
+          failures = 0;
+        } catch (error) {
+          console.error("Error computing embeddings:", error);
+          this.requeueEmbeddings(batch);
+          failures++;
+          await this.waitBeforeRetry(Math.min(EMBEDDING_RETRY_MS * 2 ** (failures - 1), MAX_EMBEDDING_RETRY_MS));
+        }
+      }
+      // Cleared synchronously after the queue empties, so nothing queued is stranded
+      this.embeddingRun = undefined;
+    })();
+  }
+
+  /**
+   * Queue the files of a failed batch again, unless they were changed
+   * (and queued anew) or deleted meanwhile, or have failed too often.
+   */
+  private requeueEmbeddings(batch: [string, { stats: DocumentStats; text: string }][]) {
+    for (const [relativePath, item] of batch) {
+      if (this.pendingEmbeddings.has(relativePath) || !this.fileIndex.has(path.join(this.folderPath, relativePath))) {
+        continue;
+      }
+      const attempts = (this.embeddingAttempts.get(relativePath) || 0) + 1;
+      if (attempts >= MAX_EMBEDDING_ATTEMPTS) {
+        console.error(`Giving up on embedding ${relativePath} after ${attempts} attempts`);
+        this.embeddingAttempts.delete(relativePath);
+        continue;
+      }
+      this.embeddingAttempts.set(relativePath, attempts);
+      this.pendingEmbeddings.set(relativePath, item);
+    }
+  }
+
+  // A pause that cleanup() can cut short
+  private waitBeforeRetry(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.embeddingRetry = undefined;
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.embeddingRetry = { timer, wake };
+    });
+  }
+
+  private removeFromIndexes(relativePath: string) {
+    this.indexErrors.delete(relativePath);
+    this.searchIndex.remove(relativePath);
+    this.vectorStore?.remove(relativePath);
+    this.pendingEmbeddings.delete(relativePath);
+    this.embeddingAttempts.delete(relativePath);
+  }
+
+  // Accepts the watcher's paths as well as the real paths sandbox.resolve gives
+  private toRelative(filePath: string): string {
+    return this.sandbox.relative(filePath);
+  }
+
   private getFileType(ext: string): string {
     const typeMap: { [key: string]: string } = {
       ".pdf": "document",
@@ -154,195 +608,271 @@ export class SparkleFolder {
       ".txt": "text",
       ".md": "text",
       ".jpg": "image",
+      ".jpeg": "image",
       ".png": "image",
       ".mp3": "audio",
       ".wav": "audio",
+      ".m4a": "audio",
       ".mp4": "video",
       ".mov": "video",
       ".csv": "data",
       ".json": "data",
       ".xlsx": "spreadsheet",
+      ".pptx": "presentation",
+      ".rtf": "document",
     };
     return typeMap[ext] || "other";
   }
 
-  private isTextFile(ext: string): boolean {
-    return [".txt", ".md", ".json", ".csv", ".log"].includes(ext);
-  }
+  /**
+   * Rank files for a query by blending two scores, each in 0..1:
+   *
+   *   relevance = KEYWORD_WEIGHT * bm25 / best bm25 + VECTOR_WEIGHT * cosine similarity
+   *
+   * The BM25 score is that of the file's best chunk; results carry the best
+   * matching passages with their line ranges.
+   *
+   * Files without a keyword match are included only when their similarity
+   * reaches MIN_VECTOR_SIMILARITY. Without an embedding provider (or if the
+   * query cannot be embedded) the keyword score is used alone. Files modified
+   * in the last week get a 10% bonus.
+   *
+   * The query may use the operators understood by parseSearchQuery
+   * (type:, ext:, in:, size:, modified:, name:, "phrases", -exclusions) and
+   * date phrases such as "from last week", matched against modified or created time.
+   * Only the free text is ranked; a query made only of filters returns every
+   * matching file, newest first.
+   */
+  public async findRelevant(query: string, limit: number): Promise<FileResult[]> {
+    await this.loading;
 
-  private generateSummary(content: string): string {
-    // Simple summary: first few lines
-    const lines = content.split("\\n").filter(l => l.trim());
-    return lines.slice(0, 3).join(" ").slice(0, 200);
-  }
+    console.error(`Finding relevant files for query: "${query}", fileIndex size: ${this.fileIndex.size}`);
 
-  private async generateEmbedding(metadata: FileMetadata): Promise<number[]> {
-    // Placeholder: In real implementation, use embeddings API
-    // For now, create fake embedding based on content
-    const text = metadata.content || metadata.name;
-    const hash = this.simpleHash(text);
-    
-    // Generate pseudo-embedding
-    const embedding: number[] = [];
-    for (let i = 0; i < 128; i++) {
-      embedding.push(Math.sin(hash * i) * Math.cos(hash / (i + 1)));
-    }
-    return embedding;
-  }
+    const parsed = parseSearchQuery(query);
+    const rankByText = parsed.freeText.trim().length > 0;
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash);
-  }
-
-  private needsBetterName(metadata: FileMetadata): boolean {
-    // Check if file has generic name
-    const genericPatterns = [
-      /^IMG_\\d+/,
-      /^DSC\\d+/,
-      /^Screenshot/,
-      /^audio_recording/,
-      /^REC\\d+/,
-      /^untitled/i,
-    ];
-    
-    return genericPatterns.some(pattern => pattern.test(metadata.name));
-  }
+    const keywordHits = rankByText ? this.searchIndex.search(parsed.freeText, Number.MAX_SAFE_INTEGER) : [];
+    const topKeywordScore = keywordHits[0]?.score || 1;
+    const keywordScores = new Map(keywordHits.map(hit => [hit.path, hit.score / topKeywordScore]));
+    const keywordPassages = new Map(keywordHits.map(hit => [hit.path, hit.passages]));
 
-  private async enhanceFileName(filePath: string, metadata: FileMetadata) {
-    // Placeholder: In real implementation, use AI to generate name
-    // For now, add timestamp
-    const timestamp = new Date().toISOString().split("T")[0];
-    const ext = path.extname(filePath);
-    const newName = `enhanced_${timestamp}_${metadata.name}`;
-    const newPath = path.join(path.dirname(filePath), newName);
-    
-    try {
-      await fs.rename(filePath, newPath);
-      console.error(`Renamed ${filePath} to ${newPath}`);
-    } catch (error) {
-      console.error("Error renaming file:", error);
+    const similarities = rankByText ? await this.querySimilarities(parsed.freeText) : null;
+    const candidates = new Set(keywordScores.keys());
+    for (const [relativePath, similarity] of similarities || []) {
+      if (similarity >= MIN_VECTOR_SIMILARITY) {
+        candidates.add(relativePath);
+      }
     }
-  }
-
-  public async findRelevant(query: string, limit: number): Promise<FileResult[]> {
-    if (!this.indexReady) {
-      await this.waitForIndex();
+    if (!rankByText && (hasQueryFilters(parsed) || parsed.excludedText.length > 0)) {
+      for (const filePath of this.fileIndex.keys()) {
+        candidates.add(this.toRelative(filePath));
+      }
     }
 
-    console.error(`Finding relevant files for query: "${query}", fileIndex size: ${this.fileIndex.size}`);
-
-    const queryEmbedding = await this.generateEmbedding({
-      name: query,
-      content: query,
-    } as FileMetadata);
-
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
     const results: FileResult[] = [];
+    for (const relativePath of candidates) {
+      const metadata = this.fileIndex.get(path.join(this.folderPath, relativePath));
+      if (!metadata) continue;
+      const candidate = { relativePath, size: metadata.size, modified: metadata.modified, created: metadata.created };
+      if (!matchesQueryFilters(candidate, parsed)) continue;
+      if (parsed.phrases.length > 0 || parsed.excludedText.length > 0) {
+        const content = await this.readIndexedText(metadata.path).catch(() => undefined);
+        if (!matchesQueryText(relativePath, content || "", parsed)) continue;
+      }
 
-    for (const [filePath, metadata] of this.fileIndex.entries()) {
-      // Calculate relevance score
-      const relevance = this.calculateRelevance(
-        query,
-        metadata,
-        queryEmbedding,
-        metadata.embedding || []
-      );
+      const keywordScore = keywordScores.get(relativePath) || 0;
+      let relevance = !rankByText
+        ? 1.0
+        : similarities
+          ? KEYWORD_WEIGHT * keywordScore + VECTOR_WEIGHT * Math.max(0, similarities.get(relativePath) || 0)
+          : keywordScore;
+      if (metadata.modified.getTime() > weekAgo) {
+        relevance *= 1.1;
+      }
 
       results.push({
-        path: filePath,
-        relevance,
+        path: metadata.path,
+        relevance: Math.min(relevance, 1.0),
         summary: metadata.summary,
         metadata,
       });
     }
 
-    console.error(`Found ${results.length} results before sorting`);
-
-    // Sort by relevance and return top results
-    return results
-      .sort((a, b) => b.relevance - a.relevance)
+    const topResults = results
+      .sort((a, b) => b.relevance - a.relevance || b.metadata!.modified.getTime() - a.metadata!.modified.getTime())
       .slice(0, limit);
-  }
-
-  private calculateRelevance(
-    query: string,
-    metadata: FileMetadata,
-    queryEmbedding: number[],
-    fileEmbedding: number[]
-  ): number {
-    let score = 0;
 
-    // 1. Semantic similarity (if embeddings available)
-    if (fileEmbedding.length > 0) {
-      score += this.cosineSimilarity(queryEmbedding, fileEmbedding) * 0.5;
+    for (const result of topResults) {
+      const passages = keywordPassages.get(this.toRelative(result.path));
+      if (passages && passages.length > 0) {
+        result.passages = await this.readPassages(result.path, passages);
+      }
     }
+    return topResults;
+  }
 
-    // 2. Keyword matching in filename
-    const queryWords = query.toLowerCase().split(/\\s+/);
-    const nameWords = metadata.name.toLowerCase();
-    
-    for (const word of queryWords) {
-      if (nameWords.includes(word)) {
-        score += 0.3;
-      }
+  /**
+   * Files most like the given one ("more like this"): the cosine of their
+   * TF-IDF term vectors, blended with that of their embeddings when the
+   * provider has vectors for both, weighted as in findRelevant.
+   */
+  public async findSimilar(filePath: string, limit: number): Promise<SimilarFile[]> {
+    await this.loading;
+    const relativePath = this.toRelative(filePath);
+    if (!this.searchIndex.get(relativePath)) {
+      throw new Error(`${relativePath} is not indexed`);
     }
 
-    // 3. Content matching (if available)
-    if (metadata.content) {
-      const contentLower = metadata.content.toLowerCase();
-      for (const word of queryWords) {
-        if (contentLower.includes(word)) {
-          score += 0.2;
-        }
+    const termHits = this.searchIndex.similarTo(relativePath, Number.MAX_SAFE_INTEGER);
+    const sourceVector = this.vectorStore?.get(relativePath);
+    const similarities = sourceVector ? this.vectorStore!.similarities(sourceVector) : null;
+
+    const candidates = new Map(termHits.map(hit => [hit.path, hit]));
+    for (const [otherPath, similarity] of similarities || []) {
+      if (similarity >= MIN_VECTOR_SIMILARITY && !candidates.has(otherPath)) {
+        candidates.set(otherPath, { path: otherPath, similarity: 0, sharedTerms: [] });
       }
     }
+    candidates.delete(relativePath);
 
-    // 4. Recency bonus
-    const daysSinceModified = 
-      (Date.now() - metadata.modified.getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceModified < 7) {
-      score += 0.1;
+    const results: SimilarFile[] = [];
+    for (const hit of candidates.values()) {
+      const metadata = this.fileIndex.get(path.join(this.folderPath, hit.path));
+      if (!metadata) continue;
+      const vectorSimilarity = similarities?.get(hit.path);
+      results.push({
+        path: metadata.path,
+        similarity: vectorSimilarity === undefined
+          ? hit.similarity
+          : KEYWORD_WEIGHT * hit.similarity + VECTOR_WEIGHT * Math.max(0, vectorSimilarity),
+        termSimilarity: hit.similarity,
+        vectorSimilarity,
+        sharedTerms: hit.sharedTerms,
+        summary: metadata.summary,
+      });
     }
 
-    return Math.min(score, 1.0);
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    if (normA === 0 || normB === 0) return 0;
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  /**
+   * Fill in the text of passages found by the index. Empty if the file
+   * can no longer be read.
+   */
+  private async readPassages(filePath: string, passages: Passage[]): Promise<FilePassage[]> {
+    const content = await this.readIndexedText(filePath).catch(() => undefined);
+    if (content === undefined) return [];
+
+    const lines = content.split("\n");
+    return passages.map(passage => ({
+      ...passage,
+      text: lines.slice(passage.startLine - 1, passage.endLine).join("\n"),
+    }));
   }
 
-  private async waitForIndex(): Promise<void> {
-    // Wait for initial indexing to complete
-    while (!this.indexReady) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  /**
+   * The part of a file the index reads, or undefined for files without a
+   * text extractor (images, audio, archives, ...). Passage line numbers refer
+   * to this text.
+   */
+  public async readIndexedText(filePath: string): Promise<string | undefined> {
+    return this.readText(filePath, extractText);
+  }
+
+  private async readText(
+    filePath: string,
+    extract: (filePath: string) => Promise<ExtractedText | null>
+  ): Promise<string | undefined> {
+    if (!getExtractorFormat(filePath)) return undefined;
+    const extracted = await extract(filePath);
+    return extracted?.text.slice(0, MAX_INDEXED_CHARS);
+  }
+
+  private async querySimilarities(query: string): Promise<Map<string, number> | null> {
+    if (!this.embeddings || !this.vectorStore || this.vectorStore.size === 0) {
+      return null;
+    }
+    try {
+      const [queryVector] = await this.embeddings.embed([query]);
+      return this.vectorStore.similarities(queryVector);
+    } catch (error) {
+      console.error("Error embedding query, using keyword ranking only:", error);
+      return null;
     }
   }
 
+  /**
+   * Resolves once the first full index pass is done.
+   */
+  public waitForIndex(): Promise<void> {
+    return this.ready;
+  }
+
+
   public async cleanup() {
     if (this.watcher) {
       await this.watcher.close();
     }
+    // Files still waiting for vectors are embedded after the next start
+    this.closed = true;
+    this.embeddingRetry?.wake();
+    await this.embeddingRun;
+    await this.searchIndex.flush();
+    await this.vectorStore?.flush();
   }
 
   public getFileCount(): number {
     return this.fileIndex.size;
   }
+
+  /**
+   * Drop a file, or everything under a directory, from the index right away
+   * instead of waiting for the watcher's unlink events.
+   */
+  public forget(relativePath: string) {
+    const target = path.join(this.folderPath, relativePath);
+    for (const filePath of [...this.fileIndex.keys()]) {
+      if (filePath === target || filePath.startsWith(target + path.sep)) {
+        this.fileIndex.delete(filePath);
+        this.removeFromIndexes(this.toRelative(filePath));
+      }
+    }
+  }
+
+  /**
+   * Title, headings and key sentences of a file, as cached in the index.
+   * Undefined for files without text, or when the index has not caught up
+   * (or, during the first pass, not yet got to) the version described by `stats`.
+   */
+  public async getSummary(filePath: string, stats: DocumentStats): Promise<FileSummary | undefined> {
+    await this.loading;
+    const relativePath = this.toRelative(filePath);
+    if (!this.searchIndex.isCurrent(relativePath, stats)) return undefined;
+    return this.searchIndex.get(relativePath)?.summary;
+  }
+
+  /**
+   * MinHash signature of an indexed file's text, for near-duplicate checks.
+   */
+  public getSignature(filePath: string): number[] | undefined {
+    return this.searchIndex.get(this.toRelative(filePath))?.signature;
+  }
+
+  public getMetadata(filePath: string): FileMetadata | undefined {
+    return this.fileIndex.get(filePath);
+  }
+
+  public getFolderPath(): string {
+    return this.folderPath;
+  }
+
+  /**
+   * All files indexed so far, sorted by path. Like searches, this does not
+   * wait for the first index pass; see getIndexStatus for its progress.
+   */
+  public async listFiles(): Promise<FileMetadata[]> {
+    await this.loading;
+    return [...this.fileIndex.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+import * as path from "path";
+import { tokenize } from "./tokenizer.js";
+
+export interface FileSummary {
+  title?: string;      // Front-matter title or the first top-level heading
+  headings: string[];  // Other Markdown headings, in document order
+  sentences: string[]; // Key sentences, in document order
+}
+
+const SUMMARY_SENTENCES = 3;
+const MAX_HEADINGS = 10;
+const SUMMARY_TEXT_CHARS = 300;
+
+// TextRank compares every pair of sentences, so only the first ones are ranked
+const MAX_RANKED_SENTENCES = 200;
+const MIN_SENTENCE_TERMS = 4;
+const MAX_SENTENCE_CHARS = 400;
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+
+// Formats whose text is prose; data files and logs are summarized by their first lines
+const PROSE_EXTENSIONS = new Set([
+  ".txt", ".md", ".markdown", ".html", ".htm", ".xhtml", ".rtf",
+  ".pdf", ".docx", ".docm", ".dotx", ".pptx", ".pptm",
+]);
+
+/**
+ * Split YAML front matter (between `---` lines at the very start) from the
+ * body. Only flat `key: value` pairs are read.
+ */
+const splitFrontMatter = (text: string): { fields: Record<string, string>; body: string } => {
+  const match = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string> = Object.create(null);
+  for (const line of match[1].split("\n")) {
+    const field = /^([A-Za-z_][\w-]*)\s*:\s*(.+?)\s*$/.exec(line);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+};
+
+/**
+ * Markdown inline syntax reduced to its text: links, images, emphasis, code.
+ */
+const stripInlineMarkdown = (text: string): string => {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:.*?\S)?)\1/g, "$2")
+    .trim();
+};
+
+/**
+ * ATX (`# Title`) and setext (`Title` over `===`/`---`) headings outside
+ * code fences, plus the body with headings, fences and list markers removed.
+ */
+const splitHeadings = (body: string): { headings: { level: number; text: string }[]; prose: string } => {
+  const headings: { level: number; text: string }[] = [];
+  const prose: string[] = [];
+  const lines = body.split("\n");
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      prose.push("");
+      continue;
+    }
+    if (inFence) continue;
+
+    const atx = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    const setext = line.trim() && /^\s{0,3}(=+|-+)\s*$/.exec(lines[i + 1] || "");
+    if (atx) {
+      headings.push({ level: atx[1].length, text: stripInlineMarkdown(atx[2]) });
+      prose.push("");
+    } else if (setext && !/^\s*[-*+]\s/.test(line)) {
+      headings.push({ level: setext[1][0] === "=" ? 1 : 2, text: stripInlineMarkdown(line) });
+      prose.push("");
+      i++;
+    } else {
+      prose.push(line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").replace(/^\s*>\s?/, ""));
+    }
+  }
+  return { headings, prose: prose.join("\n") };
+};
+
+/**
+ * Sentences of prose: paragraphs are split at blank lines, then at sentence
+ * punctuation followed by a capital letter or digit.
+ */
+const splitSentences = (prose: string): string[] => {
+  const sentences: string[] = [];
+  for (const paragraph of prose.split(/\n\s*\n/)) {
+    const flat = stripInlineMarkdown(paragraph.replace(/\s+/g, " "));
+    if (!flat) continue;
+    for (const sentence of flat.split(/(?<=[.!?…])["'”’)]?\s+(?=["'“‘(]?[\p{Lu}\p{N}])/u)) {
+      const trimmed = sentence.trim();
+      if (trimmed.length > MAX_SENTENCE_CHARS || tokenize(trimmed).length < MIN_SENTENCE_TERMS) continue;
+      sentences.push(trimmed);
+    }
+  }
+  return sentences;
+};
+
+/**
+ * TextRank: sentences are nodes, edges are weighted by shared terms
+ * normalized by sentence length (Mihalcea & Tarau, 2004), and the most
+ * central sentences win. Ties go to the earlier sentence.
+ */
+const rankSentences = (sentences: string[], count: number): string[] => {
+  if (sentences.length <= count) return sentences;
+
+  const termSets = sentences.map(sentence => new Set(tokenize(sentence)));
+  const n = sentences.length;
+  const weights: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  const totals: number[] = new Array(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let shared = 0;
+      for (const term of termSets[i]) {
+        if (termSets[j].has(term)) shared++;
+      }
+      if (shared === 0) continue;
+      const weight = shared / (Math.log(termSets[i].size + 1) + Math.log(termSets[j].size + 1));
+      weights[i][j] = weights[j][i] = weight;
+      totals[i] += weight;
+      totals[j] += weight;
+    }
+  }
+
+  let scores: number[] = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    scores = scores.map((_, i) => {
+      let incoming = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) incoming += weights[j][i] / totals[j] * scores[j];
+      }
+      return (1 - DAMPING) / n + DAMPING * incoming;
+    });
+  }
+
+  return scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(({ index }) => sentences[index]);
+};
+
+/**
+ * Extractive summary of a file's text: its title and headings, and the
+ * most central sentences. Data files and logs, and text without proper
+ * sentences, are summarized by their first non-empty lines instead.
+ */
+export const summarize = (text: string, filePath: string): FileSummary => {
+  const { fields, body } = splitFrontMatter(text);
+  const { headings, prose } = splitHeadings(body);
+
+  const topHeading = headings.find(heading => heading.level === 1);
+  const title = fields.title || topHeading?.text || undefined;
+  const otherHeadings = headings
+    .filter(heading => heading !== topHeading || fields.title)
+    .map(heading => heading.text)
+    .filter(heading => heading && heading !== title)
+    .slice(0, MAX_HEADINGS);
+
+  const isProse = PROSE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  const sentences = isProse ? splitSentences(prose).slice(0, MAX_RANKED_SENTENCES) : [];
+  const lead = fields.description || fields.summary;
+
+  let keySentences: string[];
+  if (sentences.length > 0) {
+    keySentences = rankSentences(sentences, lead ? SUMMARY_SENTENCES - 1 : SUMMARY_SENTENCES);
+  } else {
+    const lines = (isProse ? prose : body).split("\n").map(line => line.trim()).filter(Boolean);
+    keySentences = lines.slice(0, SUMMARY_SENTENCES).map(line => line.slice(0, MAX_SENTENCE_CHARS));
+  }
+
+  return {
+    title,
+    headings: otherHeadings,
+    sentences: lead ? [lead, ...keySentences] : keySentences,
+  };
+};
+
+/**
+ * One line for search results: "Title: key sentences", cut to a few hundred characters.
+ */
+export const summaryText = (summary: FileSummary): string => {
+  const text = [summary.title ? `${summary.title}:` : "", ...summary.sentences].filter(Boolean).join(" ");
+  return text.length > SUMMARY_TEXT_CHARS ? `${text.slice(0, SUMMARY_TEXT_CHARS - 1).trimEnd()}…` : text;
+};
@@ -0,0 +1,341 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { unzipSync } from "fflate";
+
+/**
+ * Pulls plain text out of a file's bytes.
+ */
+export type TextExtractor = (data: Buffer) => Promise<string>;
+
+export interface ExtractedText {
+  text: string;
+  format: string; // Name the extractor was registered under, e.g. "pdf"
+}
+
+// Documents larger than this are not extracted
+export const MAX_EXTRACTED_FILE_BYTES = 50 * 1024 * 1024; // 50MB
+
+// Skip archive members that would inflate past this (zip bombs)
+const MAX_ZIP_ENTRY_BYTES = 100 * 1024 * 1024; // 100MB
+
+const extractors: Map<string, { format: string; extract: TextExtractor }> = new Map();
+
+/**
+ * Register an extractor for one or more extensions (with the leading dot).
+ * A later registration for the same extension replaces the earlier one.
+ */
+export const registerExtractor = (format: string, extensions: string[], extract: TextExtractor) => {
+  for (const ext of extensions) {
+    extractors.set(ext.toLowerCase(), { format, extract });
+  }
+};
+
+/**
+ * Name of the extractor for this file's extension ("pdf", "docx", "text", ...),
+ * or undefined when text cannot be extracted from it.
+ */
+export const getExtractorFormat = (filePath: string): string | undefined => {
+  return extractors.get(path.extname(filePath).toLowerCase())?.format;
+};
+
+/**
+ * Plain text of a file, or null when no extractor handles its type.
+ * Parser errors (a corrupt or encrypted document) are thrown.
+ */
+export const extractText = async (fullPath: string): Promise<ExtractedText | null> => {
+  const extractor = extractors.get(path.extname(fullPath).toLowerCase());
+  if (!extractor) return null;
+
+  const stats = await fs.stat(fullPath);
+  if (stats.size > MAX_EXTRACTED_FILE_BYTES) {
+    throw new Error(`File is too large to extract text from (${stats.size} bytes)`);
+  }
+
+  const text = await extractor.extract(await fs.readFile(fullPath));
+  return { text: normalizeWhitespace(text), format: extractor.format };
+};
+
+const normalizeWhitespace = (text: string): string => {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v ]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  bull: "•", middot: "·", copy: "©", reg: "®", trade: "™", euro: "€", pound: "£", deg: "°",
+};
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
+
+// --- Plain text ---
+
+const extractPlainText: TextExtractor = async (data) => data.toString("utf-8");
+
+// --- HTML ---
+
+const BLOCK_TAGS = "p|div|br|hr|li|ul|ol|tr|table|section|article|header|footer|nav|aside|h[1-6]|pre|blockquote|title|dd|dt";
+
+const extractHtml: TextExtractor = async (data) => {
+  return decodeEntities(
+    data.toString("utf-8")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi, "")
+      .replace(/<(td|th)\b[^>]*>/gi, "\t")
+      .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+      .replace(/<[^>]*>/g, "")
+      .replace(/[ \t]+/g, " ")
+      .replace(/ *\n */g, "\n")
+  );
+};
+
+// --- RTF ---
+
+// Groups whose content is formatting or metadata, not document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "header", "footer",
+  "headerl", "headerr", "footerl", "footerr", "listtable", "listoverridetable",
+  "rsidtbl", "generator", "xmlnstbl", "themedata", "colorschememapping", "datastore",
+  "latentstyles", "fldinst",
+]);
+
+const RTF_SPECIAL_CHARACTERS: Record<string, string> = {
+  par: "\n", line: "\n", sect: "\n\n", page: "\n\n", row: "\n", cell: "\t", tab: "\t",
+  emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”",
+  emspace: " ", enspace: " ", qmspace: " ",
+};
+
+/**
+ * Walks RTF control words and groups, keeping text, paragraph breaks,
+ * `\'hh` (Windows-1252) and `\uN` characters.
+ */
+const extractRtf: TextExtractor = async (data) => {
+  const rtf = data.toString("latin1");
+  const output: string[] = [];
+  // Per group: whether its text is skipped, and how many fallback characters follow \uN
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0; // Fallback characters still to drop after a \uN
+  let groupStart = false;
+  const decoder = new TextDecoder("windows-1252");
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!skip) output.push(text);
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push({ skip, unicodeSkip });
+      groupStart = true;
+      continue;
+    }
+    if (char === "}") {
+      ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 });
+      groupStart = false;
+      continue;
+    }
+
+    if (char === "\\") {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        emit(decoder.decode(Buffer.from([parseInt(rtf.slice(i + 2, i + 4), 16) || 0x3f])));
+        i += 3;
+      } else if (next === "*") {
+        // Optional destination we don't understand
+        if (groupStart) skip = true;
+        i += 1;
+      } else if (next !== undefined && /[a-zA-Z]/.test(next)) {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40))!;
+        const [whole, word, parameter] = match;
+        i += whole.length;
+
+        if (groupStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skip = true;
+        } else if (word === "uc") {
+          unicodeSkip = parseInt(parameter || "1", 10);
+        } else if (word === "u") {
+          let code = parseInt(parameter || "0", 10);
+          if (code < 0) code += 65536;
+          pendingSkip = 0;
+          emit(String.fromCharCode(code));
+          pendingSkip = unicodeSkip;
+        } else if (word in RTF_SPECIAL_CHARACTERS) {
+          emit(RTF_SPECIAL_CHARACTERS[word]);
+        }
+      } else if (next === "\n" || next === "\r") {
+        emit("\n");
+        i += 1;
+      } else if (next !== undefined) {
+        // Escaped \ { } and symbols like \~ (non-breaking space)
+        emit(next === "~" ? " " : next === "-" || next === "_" ? "" : next);
+        i += 1;
+      }
+      groupStart = false;
+      continue;
+    }
+
+    groupStart = false;
+    if (char === "\n" || char === "\r") continue;
+    emit(char);
+  }
+
+  return output.join("");
+};
+
+// --- Office Open XML (DOCX, XLSX, PPTX) ---
+
+const unzipEntries = (data: Buffer, accept: (name: string) => boolean): Record<string, string> => {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) => accept(file.name) && file.originalSize <= MAX_ZIP_ENTRY_BYTES,
+  });
+  const entries: Record<string, string> = Object.create(null);
+  for (const [name, bytes] of Object.entries(files)) {
+    entries[name] = Buffer.from(bytes).toString("utf-8");
+  }
+  return entries;
+};
+
+// "ppt/slides/slide10.xml" sorts after "slide9.xml"
+const byTrailingNumber = (a: string, b: string): number => {
+  const number = (name: string) => parseInt(/(\d+)\.xml$/.exec(name)?.[1] || "0", 10);
+  return number(a) - number(b) || a.localeCompare(b);
+};
+
+/**
+ * Text of WordprocessingML or DrawingML runs: one line per paragraph
+ * (`w:p`/`a:p`), with tabs and line breaks kept.
+ */
+const xmlParagraphText = (xml: string, prefix: "w" | "a"): string => {
+  const paragraphs: string[] = [];
+  const paragraphPattern = new RegExp(`<${prefix}:p[ >][\\s\\S]*?<\\/${prefix}:p>|<${prefix}:p\\/>`, "g");
+  const runPattern = new RegExp(`<${prefix}:t(?: [^>]*)?>([\\s\\S]*?)<\\/${prefix}:t>|<${prefix}:(tab|br|cr)\\b[^>]*\\/>`, "g");
+
+  for (const [paragraph] of xml.matchAll(paragraphPattern)) {
+    let text = "";
+    for (const [, run, element] of paragraph.matchAll(runPattern)) {
+      text += element === "tab" ? "\t" : element ? "\n" : decodeEntities(run);
+    }
+    paragraphs.push(text);
+  }
+  return paragraphs.join("\n");
+};
+
+const extractDocx: TextExtractor = async (data) => {
+  const parts = /^word\/(document|footnotes|endnotes|comments)\.xml$/;
+  const entries = unzipEntries(data, name => parts.test(name));
+  if (!entries["word/document.xml"]) {
+    throw new Error("Not a Word document: word/document.xml is missing");
+  }
+  return ["document", "footnotes", "endnotes", "comments"]
+    .map(part => entries[`word/${part}.xml`])
+    .filter(Boolean)
+    .map(xml => xmlParagraphText(xml, "w"))
+    .join("\n\n");
+};
+
+const extractPptx: TextExtractor = async (data) => {
+  const entries = unzipEntries(data, name => /^ppt\/(slides|notesSlides)\/\w+\.xml$/.test(name));
+  const slides = Object.keys(entries).filter(name => name.startsWith("ppt/slides/")).sort(byTrailingNumber);
+  if (slides.length === 0) {
+    throw new Error("Not a PowerPoint presentation: no slides found");
+  }
+
+  return slides.map((name, index) => {
+    const notes = entries[name.replace("slides/slide", "notesSlides/notesSlide")];
+    const text = [xmlParagraphText(entries[name], "a"), notes ? xmlParagraphText(notes, "a") : ""]
+      .filter(part => part.trim())
+      .join("\n\n");
+    return `## Slide ${index + 1}\n${text}`;
+  }).join("\n\n");
+};
+
+const attribute = (tag: string, name: string): string | undefined => {
+  return new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+};
+
+/**
+ * One tab-separated line per row, sheets in workbook order under their name.
+ */
+const extractXlsx: TextExtractor = async (data) => {
+  const entries = unzipEntries(data, name =>
+    name === "xl/workbook.xml" || name === "xl/_rels/workbook.xml.rels" ||
+    name === "xl/sharedStrings.xml" || /^xl\/worksheets\/[^/]+\.xml$/.test(name)
+  );
+  if (!entries["xl/workbook.xml"]) {
+    throw new Error("Not an Excel workbook: xl/workbook.xml is missing");
+  }
+
+  const sharedStrings = [...(entries["xl/sharedStrings.xml"] || "").matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => [...item.matchAll(/<t(?: [^>]*)?>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeEntities(text)).join(""));
+
+  const targets = new Map<string, string>();
+  for (const [tag] of (entries["xl/_rels/workbook.xml.rels"] || "").matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(tag, "Id");
+    const target = attribute(tag, "Target");
+    if (id && target) {
+      targets.set(id, target.startsWith("/") ? target.slice(1) : path.posix.join("xl", target));
+    }
+  }
+
+  const sheets = [...entries["xl/workbook.xml"].matchAll(/<sheet\b[^>]*>/g)].map(([tag], index) => ({
+    name: decodeEntities(attribute(tag, "name") || `Sheet${index + 1}`),
+    file: targets.get(attribute(tag, "r:id") || "") || `xl/worksheets/sheet${index + 1}.xml`,
+  }));
+
+  return sheets.map(sheet => {
+    const rows = [...(entries[sheet.file] || "").matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)].map(([, row]) => {
+      const cells = [...row.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)].map(([, attributes, body = ""]) => {
+        const type = attribute(attributes, "t");
+        if (type === "inlineStr") {
+          return [...body.matchAll(/<t(?: [^>]*)?>([\s\S]*?)<\/t>/g)].map(([, text]) => decodeEntities(text)).join("");
+        }
+        const value = decodeEntities(/<v>([\s\S]*?)<\/v>/.exec(body)?.[1] || "");
+        if (type === "s") return sharedStrings[parseInt(value, 10)] ?? "";
+        if (type === "b") return value === "1" ? "TRUE" : "FALSE";
+        return value;
+      });
+      return cells.join("\t").replace(/\t+$/, "");
+    }).filter(row => row.trim());
+    return `## ${sheet.name}\n${rows.join("\n")}`;
+  }).join("\n\n");
+};
+
+// --- PDF ---
+
+const extractPdf: TextExtractor = async (data) => {
+  // pdf.js is large; only load it once a PDF is actually read
+  const { extractText: extractPdfText, getDocumentProxy } = await import("unpdf");
+  const document = await getDocumentProxy(new Uint8Array(data));
+  try {
+    const { text } = await extractPdfText(document, { mergePages: false });
+    return text.join("\n\n");
+  } finally {
+    await document.destroy();
+  }
+};
+
+registerExtractor("text", [".txt", ".md", ".markdown", ".json", ".csv", ".tsv", ".log"], extractPlainText);
+registerExtractor("html", [".html", ".htm", ".xhtml"], extractHtml);
+registerExtractor("rtf", [".rtf"], extractRtf);
+registerExtractor("docx", [".docx", ".docm", ".dotx"], extractDocx);
+registerExtractor("xlsx", [".xlsx", ".xlsm"], extractXlsx);
+registerExtractor("pptx", [".pptx", ".pptm"], extractPptx);
+registerExtractor("pdf", [".pdf"], extractPdf);
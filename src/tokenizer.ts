@@ -0,0 +1,52 @@
+const STOP_WORDS = new Set([
+  "the", "is", "at", "which", "on", "a", "an", "and", "or", "but", "in", "with", "to", "for", "of",
+  "as", "by", "that", "this", "from", "up", "out", "if", "about", "into", "through", "during", "how",
+  "when", "where", "why", "what", "who", "whose", "whom", "been", "being", "have", "has", "had", "do",
+  "does", "did", "will", "would", "should", "could", "may", "might", "must", "shall", "can", "it",
+  "its", "are", "was", "were", "be", "my", "me", "i", "we", "our", "you", "your", "they", "their",
+  "there", "so", "not", "no", "than", "then", "them", "these", "those", "all", "any", "some",
+]);
+
+const MAX_TERM_LENGTH = 64;
+
+/**
+ * Fold simple English plurals so "receipts" finds "receipt".
+ */
+const stem = (term: string): string => {
+  if (term.length > 4 && term.endsWith("ies")) return term.slice(0, -3) + "y";
+  if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss") && !/\d/.test(term)) {
+    return term.slice(0, -1);
+  }
+  return term;
+};
+
+/**
+ * Split text into lowercase index terms. Letters and digits from any script
+ * count as word characters; camelCase and snake_case names are split apart.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  const words = text
+    .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    if (word.length > MAX_TERM_LENGTH || STOP_WORDS.has(word)) continue;
+    if (word.length < 2 && !/\d/.test(word)) continue;
+    terms.push(stem(word));
+  }
+  return terms;
+};
+
+/**
+ * Term -> number of occurrences.
+ */
+export const termFrequencies = (terms: string[]): Record<string, number> => {
+  // No prototype, so terms like "constructor" are plain keys
+  const frequencies: Record<string, number> = Object.create(null);
+  for (const term of terms) {
+    frequencies[term] = (frequencies[term] || 0) + 1;
+  }
+  return frequencies;
+};
@@ -0,0 +1,192 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { SparkleSandbox } from "./sandbox.js";
+import { AccessDeniedError } from "./security.js";
+import { isServerPath, SERVER_PATH_DENIED, TRASH_DIRECTORY } from "./internal-paths.js";
+
+export interface TrashEntry {
+  id: string;
+  originalPath: string; // Relative to the Sparkle root
+  deletedAt: string;    // ISO timestamp
+  type: "file" | "directory";
+  size: number;
+}
+
+/**
+ * Soft delete for a Sparkle root.
+ *
+ * Each deleted item lives in `.sparkle-trash/<id>/<original name>` next to a
+ * `.sparkle-trash/<id>.json` record holding its original path and deletion time.
+ */
+export class SparkleTrash {
+  private sandbox: SparkleSandbox;
+  private retentionDays: number;
+
+  constructor(sandbox: SparkleSandbox, retentionDays: number) {
+    this.sandbox = sandbox;
+    this.retentionDays = retentionDays;
+  }
+
+  public async moveToTrash(requestedPath: string): Promise<TrashEntry> {
+    const fullPath = await this.sandbox.resolve(requestedPath);
+    const originalPath = this.sandbox.relative(fullPath);
+    if (originalPath === "") {
+      throw new AccessDeniedError(requestedPath || ".");
+    }
+    if (isServerPath(originalPath)) {
+      throw new AccessDeniedError(requestedPath, SERVER_PATH_DENIED);
+    }
+
+    const stats = await fs.stat(fullPath);
+    const entry: TrashEntry = {
+      id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+      originalPath,
+      deletedAt: new Date().toISOString(),
+      type: stats.isDirectory() ? "directory" : "file",
+      size: stats.isDirectory() ? await this.directorySize(fullPath) : stats.size,
+    };
+
+    // Write the record first so a crash never leaves an item without its origin
+    await this.sandbox.writeFile(this.recordPath(entry.id), JSON.stringify(entry, null, 2), { internal: true });
+    try {
+      await this.sandbox.move(originalPath, this.payloadPath(entry), { internal: true });
+    } catch (error) {
+      await this.removeEntry(entry.id);
+      throw error;
+    }
+
+    await this.purgeExpired();
+    return entry;
+  }
+
+  public async list(): Promise<TrashEntry[]> {
+    await this.purgeExpired();
+    return this.readEntries();
+  }
+
+  /**
+   * Put an item back at its original path, or at `destination` if given.
+   * Refuses to overwrite anything that exists there now.
+   */
+  public async restore(id: string, destination?: string): Promise<TrashEntry & { restoredTo: string }> {
+    const entry = await this.getEntry(id);
+    const target = destination || entry.originalPath;
+    const targetPath = await this.sandbox.resolveForWrite(target);
+    if (isServerPath(this.sandbox.relative(targetPath))) {
+      throw new AccessDeniedError(target, SERVER_PATH_DENIED);
+    }
+
+    const exists = await fs.lstat(targetPath).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`Cannot restore: ${target} already exists. Pass a different destination.`);
+    }
+
+    await this.sandbox.move(this.payloadPath(entry), target, { internal: true });
+    await this.removeEntry(entry.id);
+    return { ...entry, restoredTo: this.sandbox.relative(targetPath) };
+  }
+
+  /**
+   * Permanently delete the given items, or everything when no ids are given.
+   */
+  public async empty(ids?: string[]): Promise<TrashEntry[]> {
+    const entries = await this.readEntries();
+    const toRemove = ids ? entries.filter(entry => ids.includes(entry.id)) : entries;
+
+    if (ids) {
+      const missing = ids.filter(id => !entries.some(entry => entry.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Not in trash: ${missing.join(", ")}`);
+      }
+    }
+
+    for (const entry of toRemove) {
+      await this.removeEntry(entry.id);
+    }
+    return toRemove;
+  }
+
+  /**
+   * Drop items older than the configured retention. 0 keeps items forever.
+   */
+  public async purgeExpired(): Promise<number> {
+    if (this.retentionDays <= 0) return 0;
+
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    let purged = 0;
+    for (const entry of await this.readEntries()) {
+      if (new Date(entry.deletedAt).getTime() < cutoff) {
+        await this.removeEntry(entry.id);
+        purged++;
+      }
+    }
+    if (purged > 0) {
+      console.error(`Purged ${purged} expired item(s) from ${TRASH_DIRECTORY}`);
+    }
+    return purged;
+  }
+
+  private async readEntries(): Promise<TrashEntry[]> {
+    let names: string[];
+    try {
+      const trashDir = await this.sandbox.resolve(TRASH_DIRECTORY);
+      names = await fs.readdir(trashDir);
+    } catch {
+      return [];
+    }
+
+    const entries: TrashEntry[] = [];
+    for (const name of names.filter(n => n.endsWith(".json"))) {
+      try {
+        const record: TrashEntry = JSON.parse(await this.sandbox.readTextFile(path.join(TRASH_DIRECTORY, name)));
+        // The id names the item's directory, which empty_trash deletes; it must be this record's own
+        if (`${record.id}.json` !== name || path.basename(record.id) !== record.id) {
+          console.error(`Ignoring trash record ${name}: id does not match its file name`);
+          continue;
+        }
+        entries.push(record);
+      } catch (error) {
+        console.error(`Error reading trash record ${name}:`, error);
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  private async getEntry(id: string): Promise<TrashEntry> {
+    const entry = (await this.readEntries()).find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`Not in trash: ${id}`);
+    }
+    return entry;
+  }
+
+  private async removeEntry(id: string) {
+    const itemDir = await this.sandbox.resolveForWrite(path.join(TRASH_DIRECTORY, id));
+    const record = await this.sandbox.resolveForWrite(this.recordPath(id));
+    await fs.rm(itemDir, { recursive: true, force: true });
+    await fs.rm(record, { force: true });
+  }
+
+  private recordPath(id: string): string {
+    return path.join(TRASH_DIRECTORY, `${id}.json`);
+  }
+
+  private payloadPath(entry: TrashEntry): string {
+    return path.join(TRASH_DIRECTORY, entry.id, path.basename(entry.originalPath));
+  }
+
+  private async directorySize(dir: string): Promise<number> {
+    let total = 0;
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        total += await this.directorySize(fullPath);
+      } else if (entry.isFile()) {
+        total += (await fs.stat(fullPath)).size;
+      }
+    }
+    return total;
+  }
+}
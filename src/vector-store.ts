@@ -0,0 +1,173 @@
+import * as path from "path";
+import { SparkleSandbox } from "./sandbox.js";
+import { INDEX_DIRECTORY } from "./internal-paths.js";
+import { DocumentStats } from "./search-index.js";
+import { dotProduct } from "./embeddings.js";
+
+interface StoredVector {
+  size: number;
+  mtimeMs: number;
+  vector: string; // Float32Array as base64
+}
+
+interface VectorFile {
+  version: number;
+  provider: string;
+  vectors: Record<string, StoredVector>;
+}
+
+interface VectorEntry extends DocumentStats {
+  vector: number[];
+}
+
+export interface VectorHit {
+  path: string;
+  similarity: number;
+}
+
+// Bump when the embedded text changes
+const VECTOR_FORMAT_VERSION = 2;
+const VECTOR_FILE = path.join(INDEX_DIRECTORY, "vectors.json");
+const SAVE_DELAY_MS = 2000;
+
+const encodeVector = (vector: number[]): string => {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+};
+
+const decodeVector = (encoded: string): number[] => {
+  // Copy out of Buffer's shared pool, whose offsets need not be 4-byte aligned
+  const bytes = Buffer.from(encoded, "base64");
+  const aligned = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+  return Array.from(new Float32Array(aligned));
+};
+
+/**
+ * Document vectors for one Sparkle root, saved to `.sparkle-index/vectors.json`.
+ *
+ * Like the BM25 index, each vector remembers the size and mtime of the file
+ * it was computed from. Vectors from a different provider are discarded on load.
+ */
+export class VectorStore {
+  private sandbox: SparkleSandbox;
+  private providerId: string;
+  private vectors: Map<string, VectorEntry> = new Map();
+  private dirty: boolean = false;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(sandbox: SparkleSandbox, providerId: string) {
+    this.sandbox = sandbox;
+    this.providerId = providerId;
+  }
+
+  public async load() {
+    let data: VectorFile;
+    try {
+      data = JSON.parse(await this.sandbox.readTextFile(VECTOR_FILE));
+    } catch {
+      return;
+    }
+
+    if (data.version !== VECTOR_FORMAT_VERSION || data.provider !== this.providerId) {
+      console.error(`Vector format or embedding provider changed (now ${this.providerId}), recomputing vectors`);
+      this.dirty = true;
+      return;
+    }
+
+    for (const [relativePath, stored] of Object.entries(data.vectors)) {
+      this.vectors.set(relativePath, {
+        size: stored.size,
+        mtimeMs: stored.mtimeMs,
+        vector: decodeVector(stored.vector),
+      });
+    }
+    console.error(`Loaded ${this.vectors.size} vectors from ${VECTOR_FILE}`);
+  }
+
+  public isCurrent(relativePath: string, stats: DocumentStats): boolean {
+    const entry = this.vectors.get(relativePath);
+    return !!entry && entry.size === stats.size && entry.mtimeMs === stats.mtimeMs;
+  }
+
+  public get size(): number {
+    return this.vectors.size;
+  }
+
+  public get(relativePath: string): number[] | undefined {
+    return this.vectors.get(relativePath)?.vector;
+  }
+
+  public paths(): string[] {
+    return [...this.vectors.keys()];
+  }
+
+  public set(relativePath: string, stats: DocumentStats, vector: number[]) {
+    this.vectors.set(relativePath, { size: stats.size, mtimeMs: stats.mtimeMs, vector });
+    this.scheduleSave();
+  }
+
+  public remove(relativePath: string) {
+    if (this.vectors.delete(relativePath)) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Cosine similarity of every stored vector against a normalized query vector.
+   */
+  public similarities(queryVector: number[]): Map<string, number> {
+    const similarities = new Map<string, number>();
+    for (const [relativePath, entry] of this.vectors) {
+      similarities.set(relativePath, dotProduct(queryVector, entry.vector));
+    }
+    return similarities;
+  }
+
+  /**
+   * The `limit` nearest documents to a normalized query vector.
+   */
+  public search(queryVector: number[], limit: number): VectorHit[] {
+    return [...this.similarities(queryVector).entries()]
+      .map(([relativePath, similarity]) => ({ path: relativePath, similarity }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  public async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.dirty) return;
+
+    this.dirty = false;
+    const data: VectorFile = {
+      version: VECTOR_FORMAT_VERSION,
+      provider: this.providerId,
+      vectors: Object.create(null),
+    };
+    for (const [relativePath, entry] of this.vectors) {
+      data.vectors[relativePath] = {
+        size: entry.size,
+        mtimeMs: entry.mtimeMs,
+        vector: encodeVector(entry.vector),
+      };
+    }
+
+    try {
+      await this.sandbox.writeFile(VECTOR_FILE, JSON.stringify(data), { internal: true });
+    } catch (error) {
+      this.dirty = true;
+      console.error("Error saving vector store:", error);
+    }
+  }
+
+  private scheduleSave() {
+    this.dirty = true;
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
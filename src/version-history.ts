@@ -0,0 +1,275 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { SparkleSandbox } from "./sandbox.js";
+import { VERSIONS_DIRECTORY } from "./internal-paths.js";
+import { sha256, sha256File } from "./hash.js";
+import { createUnifiedDiff } from "./file-editor.js";
+import { looksLikeText } from "./mime-types.js";
+
+export interface FileVersion {
+  id: string;
+  createdAt: string; // ISO timestamp
+  reason: string;    // Which operation replaced this content
+  size: number;
+  sha256: string;
+}
+
+interface VersionManifest {
+  path: string; // Relative to the Sparkle root
+  versions: FileVersion[]; // Oldest first
+}
+
+interface RetentionOptions {
+  maxVersionsPerFile: number;
+  maxTotalBytes: number;
+}
+
+// Pseudo version id meaning "the file as it is on disk now"
+export const CURRENT_VERSION = "current";
+
+/**
+ * Snapshots of files taken before the server changes them.
+ *
+ * Each file gets `.sparkle-versions/<hash of path>/` holding a manifest.json
+ * plus one blob per version. History follows files through move_file.
+ */
+export class VersionHistory {
+  private sandbox: SparkleSandbox;
+  private retention: RetentionOptions;
+
+  constructor(sandbox: SparkleSandbox, retention: RetentionOptions) {
+    this.sandbox = sandbox;
+    this.retention = retention;
+  }
+
+  /**
+   * Save the current content of a file before it is changed. No-op when the
+   * file does not exist, is not a regular file, or matches the last snapshot.
+   */
+  public async snapshot(requestedPath: string, reason: string): Promise<FileVersion | null> {
+    let fullPath: string;
+    try {
+      fullPath = await this.sandbox.resolve(requestedPath);
+    } catch {
+      return null; // Nothing to preserve yet
+    }
+    const stats = await fs.stat(fullPath);
+    if (!stats.isFile()) return null;
+
+    const relativePath = this.sandbox.relative(fullPath);
+    const manifest = await this.readManifest(relativePath);
+    const digest = await sha256File(fullPath);
+
+    const latest = manifest.versions[manifest.versions.length - 1];
+    if (latest && latest.sha256 === digest) {
+      return null;
+    }
+
+    const version: FileVersion = {
+      id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+      createdAt: new Date().toISOString(),
+      reason,
+      size: stats.size,
+      sha256: digest,
+    };
+
+    const blobPath = await this.sandbox.resolveForWrite(this.blobPath(relativePath, version.id));
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    await fs.copyFile(fullPath, blobPath);
+
+    manifest.versions.push(version);
+    await this.pruneFile(manifest);
+    await this.writeManifest(manifest);
+    await this.pruneStore();
+
+    return version;
+  }
+
+  /**
+   * Versions of a file, newest first.
+   */
+  public async list(requestedPath: string): Promise<FileVersion[]> {
+    const relativePath = await this.toRelative(requestedPath);
+    const manifest = await this.readManifest(relativePath);
+    return [...manifest.versions].reverse();
+  }
+
+  /**
+   * Unified diff between two versions; either side may be CURRENT_VERSION.
+   */
+  public async diff(requestedPath: string, from: string, to: string = CURRENT_VERSION): Promise<string> {
+    const relativePath = await this.toRelative(requestedPath);
+    const before = await this.readVersion(relativePath, from);
+    const after = await this.readVersion(relativePath, to);
+
+    if (!looksLikeText(before) || !looksLikeText(after)) {
+      return sha256(before) === sha256(after)
+        ? "Binary contents are identical"
+        : `Binary contents differ (${before.length} bytes -> ${after.length} bytes)`;
+    }
+    return createUnifiedDiff(relativePath, before.toString("utf-8"), after.toString("utf-8"));
+  }
+
+  /**
+   * Replace the file with a stored version. The current content is
+   * snapshotted first, so a restore can itself be undone; if the file
+   * changes in the meantime, the restore is refused.
+   */
+  public async restore(requestedPath: string, versionId: string): Promise<FileVersion> {
+    const relativePath = await this.toRelative(requestedPath);
+    const manifest = await this.readManifest(relativePath);
+    const version = manifest.versions.find(v => v.id === versionId);
+    if (!version) {
+      throw new Error(`No version ${versionId} for ${relativePath}`);
+    }
+
+    const content = await this.readVersion(relativePath, versionId);
+    const current = await this.sandbox.stat(relativePath).catch(() => null);
+    await this.sandbox.writeFile(relativePath, content, {
+      // A deleted file is recreated, unless something else takes its place first
+      overwrite: current ? undefined : false,
+      expectedSha256: current?.isFile() ? await sha256File(await this.sandbox.resolve(relativePath)) : undefined,
+      beforeReplace: () => this.snapshot(relativePath, `restore_version ${versionId}`),
+    });
+    return version;
+  }
+
+  /**
+   * Re-key history after a move so it follows the file (or every file
+   * under a moved directory) to its new path.
+   */
+  public async move(fromPath: string, toPath: string) {
+    for (const manifest of await this.readAllManifests()) {
+      let newPath: string | null = null;
+      if (manifest.path === fromPath) {
+        newPath = toPath;
+      } else if (manifest.path.startsWith(fromPath + path.sep)) {
+        newPath = path.join(toPath, manifest.path.slice(fromPath.length + 1));
+      }
+      if (newPath === null) continue;
+
+      const target = await this.readManifest(newPath);
+      for (const version of manifest.versions) {
+        const source = await this.sandbox.resolve(this.blobPath(manifest.path, version.id));
+        const destination = await this.sandbox.resolveForWrite(this.blobPath(newPath, version.id));
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.rename(source, destination);
+        target.versions.push(version);
+      }
+      target.versions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      await this.pruneFile(target);
+      await this.writeManifest(target);
+      await fs.rm(await this.sandbox.resolveForWrite(this.entryDir(manifest.path)), { recursive: true, force: true });
+    }
+  }
+
+  private async toRelative(requestedPath: string): Promise<string> {
+    // The file may be gone (e.g. trashed); history is still addressable by path
+    const fullPath = await this.sandbox.resolveForWrite(requestedPath);
+    return this.sandbox.relative(fullPath);
+  }
+
+  private async readVersion(relativePath: string, versionId: string): Promise<Buffer> {
+    if (versionId === CURRENT_VERSION) {
+      return this.sandbox.readFile(relativePath);
+    }
+    const manifest = await this.readManifest(relativePath);
+    if (!manifest.versions.some(v => v.id === versionId)) {
+      throw new Error(`No version ${versionId} for ${relativePath}`);
+    }
+    return this.sandbox.readFile(this.blobPath(relativePath, versionId));
+  }
+
+  private async pruneFile(manifest: VersionManifest) {
+    while (manifest.versions.length > this.retention.maxVersionsPerFile) {
+      const oldest = manifest.versions.shift()!;
+      await this.removeBlob(manifest.path, oldest.id);
+    }
+  }
+
+  /**
+   * Drop the oldest versions across all files until the store fits the size cap.
+   */
+  private async pruneStore() {
+    const manifests = await this.readAllManifests();
+    let total = manifests.reduce(
+      (sum, m) => sum + m.versions.reduce((s, v) => s + v.size, 0),
+      0
+    );
+    if (total <= this.retention.maxTotalBytes) return;
+
+    const all = manifests
+      .flatMap(manifest => manifest.versions.map(version => ({ manifest, version })))
+      .sort((a, b) => a.version.createdAt.localeCompare(b.version.createdAt));
+
+    const touched = new Set<VersionManifest>();
+    for (const { manifest, version } of all) {
+      if (total <= this.retention.maxTotalBytes) break;
+      manifest.versions = manifest.versions.filter(v => v.id !== version.id);
+      await this.removeBlob(manifest.path, version.id);
+      total -= version.size;
+      touched.add(manifest);
+    }
+
+    for (const manifest of touched) {
+      await this.writeManifest(manifest);
+    }
+  }
+
+  private async readManifest(relativePath: string): Promise<VersionManifest> {
+    try {
+      const data = await this.sandbox.readTextFile(this.manifestPath(relativePath));
+      return JSON.parse(data);
+    } catch {
+      return { path: relativePath, versions: [] };
+    }
+  }
+
+  private async readAllManifests(): Promise<VersionManifest[]> {
+    let keys: string[];
+    try {
+      keys = await fs.readdir(await this.sandbox.resolve(VERSIONS_DIRECTORY));
+    } catch {
+      return [];
+    }
+
+    const manifests: VersionManifest[] = [];
+    for (const key of keys) {
+      try {
+        const data = await this.sandbox.readTextFile(path.join(VERSIONS_DIRECTORY, key, "manifest.json"));
+        manifests.push(JSON.parse(data));
+      } catch (error) {
+        console.error(`Error reading version manifest ${key}:`, error);
+      }
+    }
+    return manifests;
+  }
+
+  private async writeManifest(manifest: VersionManifest) {
+    if (manifest.versions.length === 0) {
+      const dir = await this.sandbox.resolveForWrite(this.entryDir(manifest.path));
+      await fs.rm(dir, { recursive: true, force: true });
+      return;
+    }
+    await this.sandbox.writeFile(this.manifestPath(manifest.path), JSON.stringify(manifest, null, 2), { internal: true });
+  }
+
+  private async removeBlob(relativePath: string, versionId: string) {
+    const blob = await this.sandbox.resolveForWrite(this.blobPath(relativePath, versionId));
+    await fs.rm(blob, { force: true });
+  }
+
+  private entryDir(relativePath: string): string {
+    return path.join(VERSIONS_DIRECTORY, sha256(relativePath).slice(0, 32));
+  }
+
+  private manifestPath(relativePath: string): string {
+    return path.join(this.entryDir(relativePath), "manifest.json");
+  }
+
+  private blobPath(relativePath: string, versionId: string): string {
+    return path.join(this.entryDir(relativePath), versionId);
+  }
+}
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkText, excerpt, CHUNK_CHARS, CHUNK_OVERLAP_CHARS } from "../dist/chunker.js";
+
+// Lines of exactly `width` characters, numbered so each is distinct
+const numberedLines = (count, width) =>
+  Array.from({ length: count }, (_, index) => `line ${index + 1} `.padEnd(width, "."));
+
+test("short text is a single chunk covering every line", () => {
+  assert.deepEqual(chunkText("first\nsecond\nthird"), [{ startLine: 1, endLine: 3, text: "first\nsecond\nthird" }]);
+});
+
+test("chunks stop once they reach the size and the next one overlaps the last lines", () => {
+  const lines = numberedLines(100, 99);
+  const chunks = chunkText(lines.join("\n"));
+
+  assert.equal(chunks[0].startLine, 1);
+  assert.equal(chunks.at(-1).endLine, 100);
+  for (const [index, chunk] of chunks.entries()) {
+    assert.equal(chunk.text, lines.slice(chunk.startLine - 1, chunk.endLine).join("\n"));
+    if (index === chunks.length - 1) continue;
+    assert.ok(chunk.text.length >= CHUNK_CHARS);
+    assert.ok(chunk.text.length < CHUNK_CHARS + 100);
+
+    // Four 100-character lines fit in the overlap
+    const next = chunks[index + 1];
+    assert.equal(next.startLine, chunk.endLine - 3);
+    assert.ok((chunk.endLine - next.startLine + 1) * 100 <= CHUNK_OVERLAP_CHARS);
+  }
+});
+
+test("a line longer than the chunk size is a chunk of its own and still moves forward", () => {
+  const long = "x".repeat(CHUNK_CHARS * 2);
+  const chunks = chunkText(`intro\n${long}\noutro`);
+  assert.deepEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine]), [[1, 2], [3, 3]]);
+  assert.deepEqual(chunkText(long).map(chunk => [chunk.startLine, chunk.endLine]), [[1, 1]]);
+});
+
+test("blank chunks are left out but line numbers still count them", () => {
+  const chunks = chunkText(`${"\n".repeat(30)}last`, 10, 0);
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0].endLine, 31);
+  assert.equal(chunks[0].text.trim(), "last");
+});
+
+test("excerpts start shortly before the first match and mark what was cut", () => {
+  const text = `${"filler ".repeat(100)}the budget\nfor May ${"tail ".repeat(100)}`;
+  const result = excerpt(text, ["Budget"], 100);
+  assert.match(result, /^…filler .*the budget for May .*…$/);
+  assert.ok(result.length <= 102);
+  assert.ok(result.indexOf("budget") <= 30);
+
+  assert.equal(excerpt("  short\n text  ", ["missing"]), "short text");
+  assert.match(excerpt("word ".repeat(100), ["missing"], 20), /^word.*…$/);
+});
@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { ClipboardHistoryManager } from "../dist/clipboard-history.js";
+import { tempFolders } from "./helpers.mjs";
+
+// West of UTC, so late evening is already the next day in UTC
+process.env.TZ = "America/Los_Angeles";
+
+const makeRoot = tempFolders("sparkle-clipboard-");
+
+test("a day's clipboard is looked up by its local date", async () => {
+  const root = await makeRoot();
+  await fs.mkdir(path.join(root, "Pasteboard", "2024-03-15"), { recursive: true });
+  await fs.writeFile(path.join(root, "Pasteboard", "2024-03-15", "2024-03-15-233000.txt"), "late copy");
+
+  const clipboard = new ClipboardHistoryManager(root);
+  const day = await clipboard.getClipboardByDate(new Date(2024, 2, 15, 23, 30));
+  assert.equal(day.date, "2024-03-15");
+  assert.deepEqual(day.entries.map(entry => entry.content), ["late copy"]);
+});
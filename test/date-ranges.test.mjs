@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractDateRange } from "../dist/date-ranges.js";
+import { parseSearchQuery } from "../dist/query-parser.js";
+
+const now = new Date(2024, 5, 20, 12);
+
+test("a bare ISO date stays part of the text", () => {
+  assert.equal(extractDateRange("2024-03-15", now), null);
+  assert.equal(extractDateRange("scan 2024-03 receipts", now), null);
+
+  const parsed = parseSearchQuery("2024-03-15");
+  assert.equal(parsed.freeText, "2024-03-15");
+  assert.equal(parsed.dates, undefined);
+});
+
+test("an ISO date after a preposition is a date range", () => {
+  const extracted = extractDateRange("notes on 2024-03-15", now);
+  assert.deepEqual(extracted?.range, { from: new Date(2024, 2, 15), to: new Date(2024, 2, 16) });
+  assert.equal(extracted?.remaining, "notes");
+
+  assert.deepEqual(extractDateRange("invoices since 2024-03", now)?.range, { from: new Date(2024, 2, 1) });
+});
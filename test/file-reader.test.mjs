@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { DEFAULT_BYTE_LIMIT, readFileRange } from "../dist/file-reader.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-reader-");
+
+const writeTemp = async (name, content) => {
+  const root = await makeRoot();
+  const fullPath = path.join(root, name);
+  await fs.writeFile(fullPath, content);
+  return fullPath;
+};
+
+test("text is paged by line across LF, CRLF and CR line ends", async () => {
+  const fullPath = await writeTemp("lines.txt", "one\r\ntwo\nthree\rfour\n");
+  const range = await readFileRange(fullPath, { offset: 1, limit: 2 });
+  assert.equal(range.text, "two\nthree");
+  assert.equal(range.totalLines, 4);
+  assert.equal(range.nextOffset, 3);
+  assert.equal(range.truncated, undefined);
+});
+
+test("a page of text stops at the byte limit", async () => {
+  const line = "x".repeat(100 * 1024);
+  const fullPath = await writeTemp("wide.txt", Array(20).fill(line).join("\n"));
+  const range = await readFileRange(fullPath);
+  assert.equal(range.lineCount, 10);
+  assert.ok(Buffer.byteLength(range.text) <= DEFAULT_BYTE_LIMIT);
+  assert.equal(range.totalLines, 20);
+  assert.equal(range.nextOffset, 10);
+  assert.match(range.truncated, /Stopped before the line limit/);
+});
+
+test("a single line longer than the byte limit is cut", async () => {
+  const fullPath = await writeTemp("minified.txt", "a" + "é".repeat(DEFAULT_BYTE_LIMIT) + "\nnext");
+  const range = await readFileRange(fullPath);
+  assert.equal(range.lineCount, 1);
+  assert.equal(Buffer.byteLength(range.text), DEFAULT_BYTE_LIMIT - 1);
+  assert.ok(!range.text.includes("�"));
+  assert.equal(range.nextOffset, 1);
+  assert.match(range.truncated, /only its start is shown/);
+});
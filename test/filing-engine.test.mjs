@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { FilingEngine } from "../dist/filing-engine.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-filing-");
+
+// Stands in for the index: lists the inbox files and hands back their text
+const indexedFolder = (root, texts) => ({
+  listFiles: async () => Object.keys(texts).map(name => ({
+    path: path.join(root, "Inbox", name),
+    size: texts[name].length,
+    type: "document",
+  })),
+  readIndexedText: async filePath => texts[path.basename(filePath)],
+});
+
+test("filing keywords match whole words and phrases only", async () => {
+  const root = await makeRoot();
+  const texts = {
+    "return.txt": "Income TAX return for 2023",
+    "notes.txt": "Regex syntax cheat sheet",
+    "invoice.txt": "Invoice\ntotal:  due in 30 days",
+    "plus.txt": "Learning C++ templates",
+  };
+  const sandbox = new SparkleSandbox(root);
+  const filing = new FilingEngine(sandbox, indexedFolder(root, texts), null, {
+    enabled: false,
+    inbox: "Inbox",
+    quarantine: "",
+    rules: [
+      { name: "taxes", keywords: ["tax"], destination: "Taxes" },
+      { name: "invoices", keywords: ["total: due"], destination: "Invoices" },
+      { name: "code", keywords: ["C++"], destination: "Code" },
+    ],
+  });
+
+  const { moves, unmatched } = await filing.preview();
+  assert.deepEqual(
+    moves.map(move => [move.from, move.rule]),
+    [["Inbox/return.txt", "taxes"], ["Inbox/invoice.txt", "invoices"], ["Inbox/plus.txt", "code"]]
+  );
+  assert.deepEqual(unmatched, ["Inbox/notes.txt"]);
+});
@@ -0,0 +1,17 @@
+import { after } from "node:test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * A factory for temporary folders, all removed once the calling test file is done.
+ */
+export const tempFolders = (prefix) => {
+  const folders = [];
+  after(() => Promise.all(folders.map(folder => fs.rm(folder, { recursive: true, force: true }))));
+  return async () => {
+    const folder = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+    folders.push(folder);
+    return folder;
+  };
+};
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { IgnoreRules } from "../dist/ignore-rules.js";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeFolder = tempFolders("sparkle-ignore-");
+
+test("nested ignore files add rules and negations win below them", async () => {
+  const root = await makeFolder();
+  await fs.mkdir(path.join(root, "Projects/app"), { recursive: true });
+  await fs.writeFile(path.join(root, ".sparkleignore"), "*.log\ncache/\n");
+  await fs.writeFile(path.join(root, "Projects/app/.sparkleignore"), "!keep.log\n");
+
+  const rules = new IgnoreRules(root);
+  assert.equal(rules.isIgnored(path.join(root, "debug.log")), true);
+  assert.equal(rules.isIgnored(path.join(root, "Projects/app/keep.log")), false);
+  assert.equal(rules.isIgnored(path.join(root, "Projects/app/other.log")), true);
+  assert.equal(rules.isIgnored(path.join(root, "cache"), true), true);
+  assert.equal(rules.isIgnored(path.join(root, "cache/page.html")), true);
+  assert.equal(rules.isIgnored(path.join(root, "notes.md")), false);
+  assert.equal(rules.isIgnored(path.join(path.dirname(root), "debug.log")), false);
+});
+
+test("ignore rules apply to real paths when the root is reached through a symlink", async () => {
+  const folder = await makeFolder();
+  const realRoot = path.join(folder, "iCloud", "Sparkle");
+  const linkedRoot = path.join(folder, "Sparkle");
+  await fs.mkdir(realRoot, { recursive: true });
+  await fs.symlink(realRoot, linkedRoot);
+  await fs.writeFile(path.join(realRoot, ".sparkleignore"), "secret.txt\n");
+  await fs.writeFile(path.join(realRoot, "secret.txt"), "hidden");
+
+  const rules = new IgnoreRules(linkedRoot);
+  const sandbox = new SparkleSandbox(linkedRoot);
+  const resolved = await sandbox.resolve("secret.txt");
+  assert.equal(resolved, path.join(await fs.realpath(realRoot), "secret.txt"));
+  assert.equal(rules.isIgnored(resolved), true);
+  assert.equal(rules.isIgnored(path.join(linkedRoot, "secret.txt")), true);
+});
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dateValues, renderTemplate, sanitizeName, templatePlaceholders } from "../dist/name-template.js";
+
+test("names lose reserved characters, extra spaces and outer dots", () => {
+  assert.equal(sanitizeName('Q3/Plan: "draft"?*'), "Q3 Plan draft");
+  assert.equal(sanitizeName("tab\there\x00and\nnewline"), "tab here and newline");
+  assert.equal(sanitizeName("  ..hidden name.. "), "hidden name");
+  assert.equal(sanitizeName("../../etc/passwd"), "etc passwd");
+  assert.equal(sanitizeName("x".repeat(150)).length, 100);
+  assert.equal(sanitizeName(`${"a".repeat(99)}.txt`), "a".repeat(99));
+});
+
+test("templates are filled with sanitized values", () => {
+  const values = { ...dateValues(new Date(2024, 2, 5, 14, 22, 10)), title: "Trip: Lisbon/Porto" };
+  assert.deepEqual(templatePlaceholders("{date} {title}"), ["date", "title"]);
+  assert.equal(renderTemplate("{date} {title}", values), "2024-03-05 Trip Lisbon Porto");
+  assert.equal(renderTemplate("{yyyy}/{mm}-{dd} at {time}", values), "2024/03-05 at 14.22.10");
+});
+
+test("a template with a missing or empty value renders nothing", () => {
+  assert.equal(renderTemplate("Photo {taken}", { date: "2024-03-05" }), undefined);
+  assert.equal(renderTemplate("{title}", { title: "../.." }), undefined);
+  assert.equal(renderTemplate("{title} notes", { title: "" }), undefined);
+  assert.equal(renderTemplate("   ", {}), undefined);
+});
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  describeQuery,
+  hasQueryFilters,
+  matchesQueryFilters,
+  matchesQueryText,
+  parseDatePeriod,
+  parseSearchQuery,
+} from "../dist/query-parser.js";
+
+const file = (relativePath, size = 1000, modified = new Date(2024, 2, 10)) => ({ relativePath, size, modified });
+
+test("operators, phrases and negations are split from the free text", () => {
+  const parsed = parseSearchQuery('budget type:pdf,sheet -ext:bak in:Finance/2024/ -in:Archive name:"tax return" "net total" -draft -"old copy" re:invoice');
+  assert.equal(parsed.freeText, "budget re:invoice net total");
+  assert.deepEqual(parsed.phrases, ["net total"]);
+  assert.deepEqual(parsed.excludedText, ["draft", "old copy"]);
+  assert.deepEqual(parsed.extensions, [".pdf", ".xlsx", ".xls", ".csv", ".numbers", ".ods"]);
+  assert.deepEqual(parsed.excludedExtensions, [".bak"]);
+  assert.deepEqual(parsed.folders, ["finance/2024"]);
+  assert.deepEqual(parsed.excludedFolders, ["archive"]);
+  assert.deepEqual(parsed.names, ["tax return"]);
+  assert.deepEqual(parsed.warnings, []);
+  assert.ok(hasQueryFilters(parsed));
+  assert.ok(!hasQueryFilters(parseSearchQuery("just words")));
+});
+
+test("unknown types are read as extensions", () => {
+  assert.deepEqual(parseSearchQuery("type:photos").extensions, parseSearchQuery("type:image").extensions);
+  assert.deepEqual(parseSearchQuery("type:heic").extensions, [".heic"]);
+});
+
+test("size ranges take units, comparisons and bounds", () => {
+  assert.deepEqual(parseSearchQuery("size:>5MB").size, { min: 5 * 1024 ** 2 + 1 });
+  assert.deepEqual(parseSearchQuery("size:<=100kb").size, { max: 100 * 1024 });
+  assert.deepEqual(parseSearchQuery("size:1MB..10MB").size, { min: 1024 ** 2, max: 10 * 1024 ** 2 });
+
+  const bad = parseSearchQuery("size:huge");
+  assert.equal(bad.size, undefined);
+  assert.match(bad.warnings[0], /Could not read size:huge/);
+});
+
+test("modified dates are local calendar periods", () => {
+  assert.deepEqual(parseDatePeriod("2024"), { from: new Date(2024, 0, 1), to: new Date(2025, 0, 1) });
+  assert.deepEqual(parseDatePeriod("2024-02"), { from: new Date(2024, 1, 1), to: new Date(2024, 2, 1) });
+  assert.equal(parseDatePeriod("2024-02-31"), null);
+  assert.equal(parseDatePeriod("2024-13"), null);
+
+  assert.deepEqual(parseSearchQuery("modified:>2024-03-01").modified, { from: new Date(2024, 2, 2) });
+  assert.deepEqual(parseSearchQuery("modified:<2024-03").modified, { to: new Date(2024, 2, 1) });
+  assert.deepEqual(parseSearchQuery("modified:2024-01..2024-06").modified, { from: new Date(2024, 0, 1), to: new Date(2024, 6, 1) });
+  assert.match(parseSearchQuery("modified:someday").warnings[0], /Could not read modified:someday/);
+});
+
+test("files are matched against every filter", () => {
+  const parsed = parseSearchQuery("ext:pdf in:finance -in:finance/archive name:tax size:<1MB modified:2024-03");
+  assert.ok(matchesQueryFilters(file("Finance/2024/Tax Return.pdf"), parsed));
+  assert.ok(!matchesQueryFilters(file("Finance/2024/Tax Return.docx"), parsed));
+  assert.ok(!matchesQueryFilters(file("Finance/Archive/tax.pdf"), parsed));
+  assert.ok(!matchesQueryFilters(file("Personal/tax.pdf"), parsed));
+  assert.ok(!matchesQueryFilters(file("Finance/receipt.pdf"), parsed));
+  assert.ok(!matchesQueryFilters(file("Finance/tax.pdf", 2 * 1024 ** 2), parsed));
+  assert.ok(!matchesQueryFilters(file("Finance/tax.pdf", 1000, new Date(2024, 3, 1)), parsed));
+  // "in:" matches whole folder names only
+  assert.ok(!matchesQueryFilters(file("Finances/tax.pdf"), parsed));
+});
+
+test("phrases must appear and excluded text must not, in the path or content", () => {
+  const parsed = parseSearchQuery('"net total" -draft');
+  assert.ok(matchesQueryText("invoice.md", "The Net Total is due", parsed));
+  assert.ok(!matchesQueryText("invoice.md", "Subtotal only", parsed));
+  assert.ok(!matchesQueryText("Drafts/invoice.md", "net total", parsed));
+});
+
+test("the description echoes how the query was read", () => {
+  assert.equal(
+    describeQuery(parseSearchQuery("budget ext:pdf size:>=1KB")),
+    'text "budget"; extension .pdf; size at least 1 KB'
+  );
+  assert.equal(describeQuery(parseSearchQuery("")), "everything");
+});
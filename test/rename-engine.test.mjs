@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { VersionHistory } from "../dist/version-history.js";
+import { RenameEngine, DEFAULT_RENAME_RULES } from "../dist/rename-engine.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-renames-");
+
+const modified = new Date(2024, 2, 5, 14, 22, 10);
+
+// Stands in for the index: lists the files with their types and summaries
+const indexedFolder = (root, files) => ({
+  listFiles: async () => Object.entries(files).map(([name, { type }]) => ({
+    path: path.join(root, name),
+    size: 1,
+    type,
+  })),
+  getMetadata: filePath => files[path.relative(root, filePath)],
+  getSummary: async filePath => files[path.relative(root, filePath)]?.summary,
+});
+
+const setup = async files => {
+  const root = await makeRoot();
+  for (const name of Object.keys(files)) {
+    await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+    await fs.writeFile(path.join(root, name), name);
+    await fs.utimes(path.join(root, name), modified, modified);
+  }
+  const sandbox = new SparkleSandbox(root);
+  const versions = new VersionHistory(sandbox, { maxVersionsPerFile: 20, maxTotalBytes: 1024 * 1024 });
+  const engine = new RenameEngine(sandbox, indexedFolder(root, files), versions, {
+    enabled: false,
+    rules: DEFAULT_RENAME_RULES,
+  });
+  return { root, sandbox, versions, engine };
+};
+
+test("the default rules rename generic names and skip files without the values they need", async () => {
+  const { engine } = await setup({
+    "Screenshot.png": { type: "image" },
+    "Shots/screenshot_2.png": { type: "image" },
+    "Screenshot 2024-03-01 at 09.00.png": { type: "image" },
+    "Screenshot notes.txt": { type: "document" },
+    "IMG_1234.jpg": { type: "image" },
+    "REC_001.m4a": { type: "audio" },
+    "untitled.md": { type: "document", summary: { title: "Trip: Lisbon", headings: [] } },
+    "Untitled 2.md": { type: "document", summary: { headings: ["Packing list"] } },
+    "untitled 3.md": { type: "document" },
+    "holiday.jpg": { type: "image" },
+  });
+
+  const suggestions = await engine.suggest();
+  assert.deepEqual(suggestions.map(({ from, to }) => [from, to]).sort(), [
+    ["REC_001.m4a", "Recording 2024-03-05 14.22.10.m4a"],
+    ["Screenshot.png", "Screenshot 2024-03-05 14.22.10.png"],
+    [path.join("Shots", "screenshot_2.png"), path.join("Shots", "Screenshot 2024-03-05 14.22.10.png")],
+    ["Untitled 2.md", "Packing list.md"],
+    ["untitled.md", "Trip Lisbon.md"],
+  ]);
+  assert.deepEqual(await engine.suggest("Shots"), [suggestions.find(({ from }) => from.startsWith("Shots"))]);
+});
+
+test("names suggested together do not collide with each other or existing files", async () => {
+  const { engine } = await setup({
+    "REC_1.m4a": { type: "audio" },
+    "REC_2.m4a": { type: "audio" },
+    "Recording 2024-03-05 14.22.10.m4a": { type: "audio" },
+  });
+  assert.deepEqual((await engine.suggest()).map(({ to }) => to).sort(), [
+    "Recording 2024-03-05 14.22.10 (2).m4a",
+    "Recording 2024-03-05 14.22.10 (3).m4a",
+  ]);
+});
+
+test("undo renames a batch back, keeps history and leaves files changed since alone", async () => {
+  const { root, versions, engine } = await setup({
+    "REC_1.m4a": { type: "audio" },
+    "Screenshot.png": { type: "image" },
+  });
+  await versions.snapshot("Screenshot.png", "test");
+
+  const { batch, skipped } = await engine.apply([
+    { from: "REC_1.m4a", to: "Recording.m4a" },
+    { from: "Screenshot.png", to: "Screen.png" },
+    { from: "missing.png", to: "Other.png" },
+  ]);
+  assert.equal(batch.renames.length, 2);
+  assert.deepEqual(skipped.map(({ from }) => from), ["missing.png"]);
+  assert.equal((await versions.list("Screen.png")).length, 1);
+
+  // Renamed again by hand, so undo cannot find it under the batch's name
+  await fs.rename(path.join(root, "Recording.m4a"), path.join(root, "Voice memo.m4a"));
+
+  const undone = await engine.undo();
+  assert.deepEqual(undone.batch.renames, [{ from: "Screen.png", to: "Screenshot.png" }]);
+  assert.deepEqual(undone.skipped.map(({ from }) => from), ["Recording.m4a"]);
+  assert.deepEqual((await fs.readdir(root)).filter(name => !name.startsWith(".")).sort(), ["Screenshot.png", "Voice memo.m4a"]);
+  assert.equal((await versions.list("Screenshot.png")).length, 1);
+
+  await assert.rejects(engine.undo(), /No renames to undo/);
+  await assert.rejects(engine.undo("unknown"), /No rename batch with id "unknown"/);
+});
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-sandbox-");
+
+const serverPaths = [
+  ".sparkle-trash/123-abcdef01.json",
+  ".sparkle-versions/notes.md/manifest.json",
+  ".sparkle-index/index.json",
+  ".mcp-config.json",
+];
+
+test("writeFile refuses the server's own files", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  for (const target of serverPaths) {
+    await assert.rejects(sandbox.writeFile(target, "{}"), { name: "AccessDeniedError" }, target);
+    await assert.rejects(fs.access(path.join(root, target)), target);
+  }
+});
+
+test("writeFile with internal may write server files", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  await sandbox.writeFile(".sparkle-index/index.json", "{}", { internal: true });
+  assert.equal(await fs.readFile(path.join(root, ".sparkle-index/index.json"), "utf-8"), "{}");
+});
+
+test("move refuses server files as source or destination", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  await fs.writeFile(path.join(root, "notes.md"), "hello");
+  await fs.mkdir(path.join(root, ".sparkle-index"));
+  await fs.writeFile(path.join(root, ".sparkle-index/index.json"), "{}");
+
+  for (const target of serverPaths) {
+    await assert.rejects(sandbox.move("notes.md", target), { name: "AccessDeniedError" }, target);
+  }
+  await assert.rejects(sandbox.move(".sparkle-index/index.json", "index.json"), { name: "AccessDeniedError" });
+  assert.equal(await fs.readFile(path.join(root, "notes.md"), "utf-8"), "hello");
+});
+
+test("createDirectory refuses server directories", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  await assert.rejects(sandbox.createDirectory(".sparkle-trash/forged"), { name: "AccessDeniedError" });
+  await assert.rejects(sandbox.createDirectory(".sparkle-versions"), { name: "AccessDeniedError" });
+  await sandbox.createDirectory("Projects/2024");
+  assert.ok((await fs.stat(path.join(root, "Projects/2024"))).isDirectory());
+});
+
+test("files over maxFileSize resolve only for partial reads", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root, { maxFileSize: 10 });
+  await fs.writeFile(path.join(root, "big.log"), "line one\nline two\n");
+
+  await assert.rejects(sandbox.resolve("big.log"), /File too large/);
+  assert.equal(await sandbox.resolve("big.log", true), path.join(await fs.realpath(root), "big.log"));
+});
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { SearchIndex } from "../dist/search-index.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-search-index-");
+
+const stats = (size, mtimeMs = 1000) => ({ size, mtimeMs });
+
+const documents = {
+  "Travel/lisbon.md": "Flights to Lisbon in May, hotel near the river. Pack the camera.",
+  "Travel/tokyo.md": "Tokyo itinerary: ramen, temples and the train pass.",
+  "Finance/budget.md": "Monthly budget: rent, groceries, travel savings.",
+  "Recipes/ramen.md": "Ramen broth simmers for twelve hours with pork bones.",
+};
+
+const loaded = async root => {
+  const index = new SearchIndex(new SparkleSandbox(root));
+  await index.load();
+  return index;
+};
+
+// [file, mtime] of the shard files whose content passes `filter`
+const shardTimes = async (root, filter) => {
+  const folder = path.join(root, ".sparkle-index/bm25");
+  const times = [];
+  for (const file of (await fs.readdir(folder)).sort()) {
+    const fullPath = path.join(folder, file);
+    if (filter(await fs.readFile(fullPath, "utf-8"))) times.push([file, (await fs.stat(fullPath)).mtimeMs]);
+  }
+  return times;
+};
+
+const snapshot = index => ["ramen", "travel", "lisbon hotel", "budget"].map(query => index.search(query, 10));
+
+test("a term in the file name outweighs the same term once in the text", async () => {
+  const index = new SearchIndex(new SparkleSandbox(await makeRoot()));
+  index.update("Notes/ramen.md", stats(20), "ideas for dinner this week");
+  index.update("Notes/dinner.md", stats(20), "maybe ramen this week");
+  assert.deepEqual(index.search("ramen", 10).map(hit => hit.path), ["Notes/ramen.md", "Notes/dinner.md"]);
+});
+
+test("rare terms weigh more than common ones and repeats raise the score", async () => {
+  const index = new SearchIndex(new SparkleSandbox(await makeRoot()));
+  for (const [file, text] of Object.entries(documents)) {
+    index.update(file, stats(text.length), text);
+  }
+  index.update("Finance/savings.md", stats(40), "travel travel travel fund");
+
+  const [first, second] = index.search("lisbon travel", 10);
+  assert.equal(first.path, "Travel/lisbon.md");
+  assert.ok(first.score > second.score);
+  assert.equal(index.search("travel savings", 10)[0].path, "Finance/savings.md");
+  assert.equal(index.search("travel", 1).length, 1);
+  assert.deepEqual(index.search("the and of", 10), []);
+});
+
+test("passages point at the matching lines and skip files indexed by name only", async () => {
+  const index = new SearchIndex(new SparkleSandbox(await makeRoot()));
+  const lines = Array.from({ length: 200 }, (_, line) => `line ${line + 1} `.padEnd(99, "."));
+  lines[149] = "the harbour permit renewal is due in June";
+  index.update("log.txt", stats(20000), lines.join("\n"));
+  index.update("harbour.jpg", stats(5000));
+
+  const hits = index.search("harbour permit", 10);
+  assert.deepEqual(hits.map(hit => hit.path), ["log.txt", "harbour.jpg"]);
+  const [passage] = hits[0].passages;
+  assert.ok(passage.startLine <= 150 && passage.endLine >= 150, JSON.stringify(passage));
+  assert.ok(passage.startLine > 100);
+  assert.deepEqual(hits[1].passages, []);
+});
+
+test("a reloaded index answers like the one that was saved, after partial updates too", async () => {
+  const root = await makeRoot();
+  const index = new SearchIndex(new SparkleSandbox(root));
+  for (const [file, text] of Object.entries(documents)) {
+    index.update(file, stats(text.length), text);
+  }
+  await index.flush();
+  assert.deepEqual(snapshot(await loaded(root)), snapshot(index));
+
+  // Change one file and drop another; only their shards are rewritten
+  const untouched = await shardTimes(root, name => !/tokyo|ramen/.test(name));
+  index.update("Travel/tokyo.md", stats(20, 2000), "Tokyo trip cancelled, refund pending");
+  index.remove("Recipes/ramen.md");
+  await index.flush();
+
+  const reloaded = await loaded(root);
+  assert.deepEqual(reloaded.paths().sort(), ["Finance/budget.md", "Travel/lisbon.md", "Travel/tokyo.md"]);
+  assert.ok(reloaded.isCurrent("Travel/tokyo.md", stats(20, 2000)));
+  assert.deepEqual(snapshot(reloaded), snapshot(index));
+  assert.deepEqual(reloaded.search("ramen", 10), []);
+  const times = new Map(await shardTimes(root, () => true));
+  assert.ok(untouched.length > 0);
+  for (const [file, time] of untouched) assert.equal(times.get(file), time, file);
+});
+
+test("an index saved in the single-file layout is moved to shards", async () => {
+  const root = await makeRoot();
+  const source = new SearchIndex(new SparkleSandbox(root));
+  source.update("notes.md", stats(5), "quarterly planning notes");
+  await source.flush();
+  const [shard] = await fs.readdir(path.join(root, ".sparkle-index/bm25"));
+  const saved = JSON.parse(await fs.readFile(path.join(root, ".sparkle-index/bm25", shard), "utf-8"));
+  await fs.rm(path.join(root, ".sparkle-index/bm25"), { recursive: true });
+  await fs.writeFile(path.join(root, ".sparkle-index/bm25.json"), JSON.stringify(saved));
+
+  const index = await loaded(root);
+  assert.equal(index.search("planning", 10)[0]?.path, "notes.md");
+  await index.flush();
+  await assert.rejects(fs.access(path.join(root, ".sparkle-index/bm25.json")));
+  assert.equal((await loaded(root)).search("planning", 10)[0]?.path, "notes.md");
+});
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { SparkleFolder } from "../dist/sparkle-folder.js";
+import { IgnoreRules } from "../dist/ignore-rules.js";
+import { ExtractionPool } from "../dist/extraction-pool.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-folder-");
+
+const waitFor = async (condition, timeoutMs = 10_000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+test("a failed embedding batch only drops the files the provider rejects", async () => {
+  const root = await makeRoot();
+  await fs.writeFile(path.join(root, "garden.txt"), "tomatoes and basil");
+  await fs.writeFile(path.join(root, "poison.txt"), "the provider rejects this one");
+  await fs.writeFile(path.join(root, "travel.txt"), "train to Lisbon");
+
+  const embedded = [];
+  let rejected = 0;
+  const embeddings = {
+    id: "test",
+    embed: async texts => {
+      if (texts.some(text => text.includes("rejects"))) {
+        rejected++;
+        throw new Error("Rejected input");
+      }
+      embedded.push(...texts.map(text => text.split("\n")[0]));
+      return texts.map(() => [1, 0]);
+    },
+  };
+  const pool = new ExtractionPool(1);
+  const folder = new SparkleFolder(root, new SparkleSandbox(root), new IgnoreRules(root), embeddings, pool);
+  try {
+    await folder.waitForIndex();
+    // The whole batch, then the rejected file alone until it is given up on
+    await waitFor(() => rejected === 3 && folder.getIndexStatus().pendingEmbeddings === 0);
+
+    assert.deepEqual(embedded.sort(), ["garden.txt", "travel.txt"]);
+  } finally {
+    await folder.cleanup();
+    await pool.close();
+  }
+});
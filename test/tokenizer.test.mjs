@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tokenize, termFrequencies } from "../dist/tokenizer.js";
+
+test("words are lowercased and split at camelCase, snake_case and punctuation", () => {
+  assert.deepEqual(tokenize("invoiceTotal tax_rate Q3-report"), ["invoice", "total", "tax", "rate", "q3", "report"]);
+});
+
+test("stop words and single letters are dropped, single digits are kept", () => {
+  assert.deepEqual(tokenize("a list of the things in 2 boxes x"), ["list", "thing", "2", "boxe"]);
+});
+
+test("plurals fold to the singular without touching short words, -ss or numbered terms", () => {
+  assert.deepEqual(tokenize("receipts categories bus glass mp3s"), ["receipt", "category", "bus", "glass", "mp3s"]);
+});
+
+test("letters and digits from any script are word characters", () => {
+  assert.deepEqual(tokenize("Café Zürich 東京 ١٢٣"), ["café", "zürich", "東京", "١٢٣"]);
+});
+
+test("terms longer than the limit are skipped", () => {
+  assert.deepEqual(tokenize(`short ${"x".repeat(64)} ${"y".repeat(65)}`), ["short", "x".repeat(64)]);
+});
+
+test("term frequencies count repeats and treat prototype names as plain terms", () => {
+  const frequencies = termFrequencies(tokenize("constructor budget budget toString"));
+  assert.equal(frequencies.budget, 2);
+  assert.equal(frequencies.constructor, 1);
+  assert.equal(frequencies.string, 1);
+  assert.equal(Object.getPrototypeOf(frequencies), null);
+});
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { SparkleTrash } from "../dist/trash.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-trash-");
+
+test("trash ignores records whose id is not their own file name", async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  const trash = new SparkleTrash(sandbox, 0);
+  await fs.mkdir(path.join(root, "Keep"));
+  await fs.writeFile(path.join(root, "Keep/important.txt"), "keep me");
+  await fs.mkdir(path.join(root, ".sparkle-trash"));
+  await fs.writeFile(path.join(root, ".sparkle-trash/1-forged.json"), JSON.stringify({
+    id: "../Keep",
+    originalPath: "Keep",
+    deletedAt: new Date().toISOString(),
+    type: "directory",
+    size: 0,
+  }));
+
+  assert.deepEqual(await trash.list(), []);
+  await trash.empty();
+  assert.equal(await fs.readFile(path.join(root, "Keep/important.txt"), "utf-8"), "keep me");
+});
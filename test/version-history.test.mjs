@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SparkleSandbox } from "../dist/sandbox.js";
+import { VersionHistory } from "../dist/version-history.js";
+import { tempFolders } from "./helpers.mjs";
+
+const makeRoot = tempFolders("sparkle-versions-");
+
+const setup = async () => {
+  const root = await makeRoot();
+  const sandbox = new SparkleSandbox(root);
+  const versions = new VersionHistory(sandbox, { maxVersionsPerFile: 20, maxTotalBytes: 1024 * 1024 });
+  await sandbox.writeFile("notes.md", "first");
+  return { sandbox, versions };
+};
+
+const write = (sandbox, versions, content, options) => sandbox.writeFile("notes.md", content, {
+  ...options,
+  beforeReplace: () => versions.snapshot("notes.md", "write_file"),
+});
+
+test("a write refused by its preconditions leaves the history unchanged", async () => {
+  const { sandbox, versions } = await setup();
+
+  await assert.rejects(write(sandbox, versions, "second", { overwrite: false }), { name: "PreconditionFailedError" });
+  await assert.rejects(write(sandbox, versions, "second", { expectedSha256: "0".repeat(64) }), { name: "PreconditionFailedError" });
+  await assert.rejects(write(sandbox, versions, "second", { expectedMtime: new Date(0).toISOString() }), { name: "PreconditionFailedError" });
+
+  assert.deepEqual(await versions.list("notes.md"), []);
+  assert.equal(await sandbox.readTextFile("notes.md"), "first");
+});
+
+test("a write that goes ahead keeps the previous content as a version", async () => {
+  const { sandbox, versions } = await setup();
+
+  await write(sandbox, versions, "second");
+
+  const history = await versions.list("notes.md");
+  assert.equal(history.length, 1);
+  assert.equal(history[0].size, "first".length);
+  assert.equal(await sandbox.readTextFile("notes.md"), "second");
+});
+
+test("a refused move leaves the history of both ends unchanged", async () => {
+  const { sandbox, versions } = await setup();
+  const snapshotBoth = {
+    beforeReplace: async () => {
+      await versions.snapshot("notes.md", "move_file");
+      await versions.snapshot(".mcp-config.json", "overwritten by move_file");
+    },
+  };
+
+  await assert.rejects(sandbox.move("notes.md", ".mcp-config.json", snapshotBoth), { name: "AccessDeniedError" });
+  await assert.rejects(sandbox.move("notes.md", "", snapshotBoth));
+
+  assert.deepEqual(await versions.list("notes.md"), []);
+  assert.equal(await sandbox.readTextFile("notes.md"), "first");
+});
+
+test("restoring a version keeps the replaced content and recreates deleted files", async () => {
+  const { sandbox, versions } = await setup();
+  await write(sandbox, versions, "second");
+  const [first] = await versions.list("notes.md");
+
+  await versions.restore("notes.md", first.id);
+  assert.equal(await sandbox.readTextFile("notes.md"), "first");
+  assert.deepEqual((await versions.list("notes.md")).map(version => version.reason), ["restore_version " + first.id, "write_file"]);
+
+  await fs.rm(path.join(sandbox.getRoot(), "notes.md"));
+  await versions.restore("notes.md", first.id);
+  assert.equal(await sandbox.readTextFile("notes.md"), "first");
+});